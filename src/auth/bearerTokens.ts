@@ -0,0 +1,63 @@
+import { isRole, type Role } from "./roles.js";
+
+// Bearer-token authentication for the MCP routes. Tokens are configured as
+// SHA-256 hashes, so the Worker configuration never contains usable tokens.
+
+export interface Identity {
+  /** Who the token was issued to, e.g. "alice@example.com" or "ci-pipeline" */
+  subject: string;
+  /** Which tools the caller may use; defaults to read-only */
+  role?: Role;
+}
+
+// Configured value per token hash: the subject, or an object describing it
+export type TokenEntry = string | Identity;
+
+export type TokenStore = Map<string, Identity>;
+
+export const AUTH_REALM = 'copado-mcp';
+
+// Parse the MCP_AUTH_TOKENS JSON object of {"<sha256 hex of token>": entry}
+export function parseTokenStore(json: string | undefined): TokenStore {
+  const store: TokenStore = new Map();
+  if (!json) {
+    return store;
+  }
+
+  const entries = JSON.parse(json) as Record<string, TokenEntry>;
+  for (const [hash, entry] of Object.entries(entries)) {
+    const identity = typeof entry === 'string' ? { subject: entry } : entry;
+    if (!/^[0-9a-f]{64}$/i.test(hash) || !identity?.subject) {
+      throw new Error(`Invalid MCP_AUTH_TOKENS entry "${hash.substring(0, 8)}…": expected a SHA-256 hex hash mapped to a subject`);
+    }
+    if (identity.role !== undefined && !isRole(identity.role)) {
+      throw new Error(`Invalid role "${identity.role}" for ${identity.subject} in MCP_AUTH_TOKENS`);
+    }
+    store.set(hash.toLowerCase(), identity);
+  }
+  return store;
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Identity for the request's bearer token, or undefined if it is missing or unknown
+export async function authenticate(request: Request, store: TokenStore): Promise<Identity | undefined> {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.get('Authorization') ?? '');
+  if (!match) {
+    return undefined;
+  }
+  return store.get(await hashToken(match[1]));
+}
+
+export function unauthorized(message: string): Response {
+  return new Response(JSON.stringify({ error: 'unauthorized', error_description: message }), {
+    status: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': `Bearer realm="${AUTH_REALM}", error="invalid_token", error_description="${message}"`,
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import type { Identity } from "./bearerTokens.js";
+
+// Ordered from least to most privileged; each role can do everything the previous one can
+export const ROLES = ['read-only', 'developer', 'release-manager'] as const;
+
+export type Role = typeof ROLES[number];
+
+// Tokens configured without a role get the least privileged one
+export const DEFAULT_ROLE: Role = 'read-only';
+
+// Minimum role for each tool. Tools missing here need the highest role.
+const TOOL_ROLES: Record<string, Role> = {
+  check_job_status: 'read-only',
+  check_job_statuses: 'read-only',
+  wait_for_job: 'read-only',
+  list_recent_operations: 'read-only',
+  list_environments: 'read-only',
+  preview_commit: 'read-only',
+  commit_changes: 'developer',
+  promote_user_story: 'developer',
+  register_environment: 'developer',
+  release_user_stories: 'developer',
+  resume_release: 'developer',
+  deploy_promotion: 'release-manager',
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function hasRole(role: Role, minimum: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(minimum);
+}
+
+export function canUseTool(role: Role, tool: string): boolean {
+  return hasRole(role, TOOL_ROLES[tool] ?? 'release-manager');
+}
+
+// Role of a session. Without an identity authentication is disabled, which is
+// only allowed for local development; such sessions get the role configured for
+// anonymous callers, which is the least privileged one unless raised explicitly.
+export function roleOf(identity: Identity | undefined, anonymousRole: Role = DEFAULT_ROLE): Role {
+  if (!identity) {
+    return anonymousRole;
+  }
+  return identity.role ?? DEFAULT_ROLE;
+}
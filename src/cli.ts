@@ -0,0 +1,315 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { COMMIT_ACTIONS, type CommitAction } from "./copado/models.js";
+import { loadLocalConfig } from "./local/config.js";
+import { openLocalSession } from "./local/localSession.js";
+
+// Command-line front end for CI scripts and release engineers. Each command calls
+// the same tools an MCP client would, through an in-process server, so argument
+// validation, history and deployment protection behave exactly as in the Worker.
+
+const USAGE = `Usage: copado-mcp <command> [options]
+
+Commands:
+  commit   --story <id> (--changes <text> | --source-path <path>... | --package-xml <file> | --diff <file|->)
+           [--action Add|Delete|RetrieveOnly] [--message <text>]
+  promote  --stories <id,id,...> [--source <environment>] [--target <environment>] [--deploy] [--dry-run]
+  deploy   --promotion <id> [--target <environment>]
+  status   --job <id>[,<id>...]
+
+Options:
+  --wait                   Wait for the started job to finish (status: wait for the job)
+  --poll <seconds>         Seconds between status checks while waiting, 5-300 (default: 15)
+  --timeout <seconds>      Maximum seconds to wait, 10-3600 (default: 600)
+  --confirm <token>        Confirmation token for a deployment to a protected environment
+  --idempotency-key <key>  Replay the stored result when a request with this key is repeated
+  --json                   Print the structured results as JSON
+  --config <path>          Config file (default: COPADO_MCP_CONFIG or ~/.copado-mcp/config.json)
+  --verbose                Log Copado requests to stderr
+
+Exit codes:
+  0  Succeeded; with --wait or status, the job completed
+  1  The command or the job failed
+  2  Invalid usage
+  3  The job has not finished yet
+  4  The deployment needs confirmation; repeat the command with --confirm <token>`;
+
+const EXIT_CODES = {
+  success: 0,
+  failed: 1,
+  usage: 2,
+  unfinished: 3,
+  confirmationRequired: 4,
+} as const;
+
+class UsageError extends Error {}
+
+type ToolResult = {
+  content: { type: string; text?: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+// One tool call of a command, kept for the JSON output
+interface Step {
+  tool: string;
+  result: Record<string, unknown> | undefined;
+}
+
+const OPTIONS = {
+  story: { type: "string" },
+  stories: { type: "string" },
+  changes: { type: "string" },
+  "source-path": { type: "string", multiple: true },
+  "package-xml": { type: "string" },
+  diff: { type: "string" },
+  action: { type: "string" },
+  message: { type: "string" },
+  source: { type: "string" },
+  target: { type: "string" },
+  deploy: { type: "boolean" },
+  "dry-run": { type: "boolean" },
+  promotion: { type: "string" },
+  job: { type: "string" },
+  wait: { type: "boolean" },
+  poll: { type: "string" },
+  timeout: { type: "string" },
+  confirm: { type: "string" },
+  "idempotency-key": { type: "string" },
+  json: { type: "boolean" },
+  config: { type: "string" },
+  verbose: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+function required(options: Options, name: "story" | "stories" | "promotion" | "job"): string {
+  const value = options[name];
+  if (!value) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+// Bounds of wait_for_job's pollIntervalSeconds and maxWaitSeconds
+const SECONDS_RANGES = {
+  poll: { min: 5, max: 300 },
+  timeout: { min: 10, max: 3600 },
+} as const;
+
+function seconds(value: string | undefined, name: keyof typeof SECONDS_RANGES): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const { min, max } = SECONDS_RANGES[name];
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new UsageError(`--${name} must be a whole number of seconds from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+function commitAction(value: string | undefined): CommitAction | undefined {
+  if (value !== undefined && !COMMIT_ACTIONS.includes(value as CommitAction)) {
+    throw new UsageError(`--action must be one of ${COMMIT_ACTIONS.join(", ")}`);
+  }
+  return value as CommitAction | undefined;
+}
+
+// Arguments of the tool a command starts with, in the tool's own input format
+function toolCall(command: string, options: Options): { tool: string; args: Record<string, unknown> } {
+  const protection = { confirmationToken: options.confirm, idempotencyKey: options["idempotency-key"] };
+
+  switch (command) {
+    case "commit": {
+      const packageXml = options["package-xml"];
+      // "-" reads the diff from stdin, e.g. git diff --name-status main | copado-mcp commit --diff -
+      const diff = options.diff === "-" ? readFileSync(0, "utf8") : options.diff && readFileSync(options.diff, "utf8");
+      return {
+        tool: "commit_changes",
+        args: {
+          userStoryId: required(options, "story"),
+          changesDescription: options.changes,
+          sourcePaths: options["source-path"],
+          packageXml: packageXml ? readFileSync(packageXml, "utf8") : undefined,
+          gitDiff: diff || undefined,
+          sourceAction: commitAction(options.action),
+          commitMessage: options.message,
+          idempotencyKey: options["idempotency-key"],
+        },
+      };
+    }
+    case "promote":
+      return {
+        tool: "promote_user_story",
+        args: {
+          userStoryIds: required(options, "stories"),
+          sourceEnvironment: options.source,
+          targetEnvironment: options.target,
+          executeDeployment: options.deploy ?? false,
+          deploymentDryRun: options["dry-run"] ?? false,
+          ...protection,
+        },
+      };
+    case "deploy":
+      return {
+        tool: "deploy_promotion",
+        args: { promotionId: required(options, "promotion"), targetEnvironment: options.target, ...protection },
+      };
+    default:
+      throw new UsageError(command ? `Unknown command "${command}"` : "Missing command");
+  }
+}
+
+// Job a started command should be waited on: the deployment when there is one
+function startedJob(result: Record<string, unknown> | undefined): string | undefined {
+  const job = result?.deploymentJobExecutionId ?? result?.jobExecutionId ?? result?.promotionJobExecutionId;
+  return typeof job === "string" && job ? job : undefined;
+}
+
+// Exit code for a job's lifecycle state
+function exitCodeOf(state: unknown): number {
+  if (state === "completed") {
+    return EXIT_CODES.success;
+  }
+  return state === "failed" || state === "cancelled" ? EXIT_CODES.failed : EXIT_CODES.unfinished;
+}
+
+function textOf(result: ToolResult): string {
+  return result.content.map(item => item.text ?? "").filter(Boolean).join("\n\n");
+}
+
+async function run(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values: options, positionals: [command] } = parsed;
+  if (options.help || command === "help") {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_CODES.success;
+  }
+  if (parsed.positionals.length > 1) {
+    throw new UsageError(`Unexpected argument "${parsed.positionals[1]}"`);
+  }
+  const wait = {
+    pollIntervalSeconds: seconds(options.poll, "poll"),
+    maxWaitSeconds: seconds(options.timeout, "timeout"),
+  };
+  const first = command === "status" ? undefined : toolCall(command, options);
+  const jobIds = command === "status" ? required(options, "job").split(",").map(id => id.trim()).filter(Boolean) : [];
+
+  const config = loadLocalConfig(options.config);
+  const local = await openLocalSession({
+    ...config,
+    settings: { ...config.settings, logLevel: options.verbose ? "debug" : "warn" },
+  });
+  const server = new McpServer({ name: "copado-mcp", version: "1.0.0" });
+  local.session.register(server);
+  const client = new Client({ name: "copado-mcp-cli", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const steps: Step[] = [];
+  const call = async (tool: string, args: Record<string, unknown>): Promise<ToolResult> => {
+    const result = await client.callTool({ name: tool, arguments: args }, CallToolResultSchema, {
+      // wait_for_job reports every status change, which keeps the request alive
+      timeout: ((wait.maxWaitSeconds ?? 600) + 60) * 1000,
+      resetTimeoutOnProgress: true,
+      onprogress: options.json ? undefined : (progress) => {
+        process.stderr.write(`⏳ ${progress.message ?? `${progress.progress}`}\n`);
+      },
+    }) as ToolResult;
+    steps.push({ tool, result: result.structuredContent });
+    if (!options.json) {
+      process.stdout.write(`${textOf(result)}\n\n`);
+    }
+    return result;
+  };
+
+  // Wait for a job; a failed job is described in full, with its failure analysis
+  const waitFor = async (jobExecutionId: string): Promise<number> => {
+    const waited = await call("wait_for_job", { jobExecutionId, ...wait });
+    if (waited.isError) {
+      return EXIT_CODES.failed;
+    }
+    const state = waited.structuredContent?.state;
+    if (state === "failed") {
+      await call("check_job_status", { jobExecutionId });
+    }
+    return exitCodeOf(state);
+  };
+
+  let exitCode: number;
+  try {
+    if (first) {
+      const result = await call(first.tool, first.args);
+      const job = startedJob(result.structuredContent);
+      if (result.isError) {
+        exitCode = EXIT_CODES.failed;
+      } else if (result.structuredContent?.status === "ConfirmationRequired") {
+        exitCode = EXIT_CODES.confirmationRequired;
+      } else if (options.wait && job) {
+        exitCode = await waitFor(job);
+      } else {
+        exitCode = EXIT_CODES.success;
+      }
+    } else if (jobIds.length === 1 && options.wait) {
+      exitCode = await waitFor(jobIds[0]);
+    } else if (jobIds.length === 1) {
+      const result = await call("check_job_status", { jobExecutionId: jobIds[0] });
+      exitCode = result.isError ? EXIT_CODES.failed : exitCodeOf(result.structuredContent?.state);
+    } else {
+      if (options.wait) {
+        throw new UsageError("--wait takes a single --job");
+      }
+      const result = await call("check_job_statuses", { jobExecutionIds: jobIds });
+      const jobs = (result.structuredContent?.jobs ?? []) as { success: boolean; state?: string }[];
+      const codes = jobs.map(job => (job.success ? exitCodeOf(job.state) : EXIT_CODES.failed));
+      // Failed jobs outrank unfinished ones
+      exitCode = result.isError || codes.includes(EXIT_CODES.failed)
+        ? EXIT_CODES.failed
+        : codes.includes(EXIT_CODES.unfinished) ? EXIT_CODES.unfinished : EXIT_CODES.success;
+    }
+  } finally {
+    await client.close();
+    local.close();
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ command, exitCode, steps }, null, 2)}\n`);
+  }
+  return exitCode;
+}
+
+// Output piped into a command that stopped reading, e.g. head
+process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+  if (error.code !== "EPIPE") {
+    throw error;
+  }
+  process.exit(process.exitCode ?? EXIT_CODES.success);
+});
+
+run(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    process.stderr.write(`copado-mcp: ${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write(`\n${USAGE}\n`);
+      process.exitCode = EXIT_CODES.usage;
+    } else {
+      process.exitCode = EXIT_CODES.failed;
+    }
+  }
+);
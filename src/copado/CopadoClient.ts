@@ -0,0 +1,218 @@
+import { Logger } from "../logging/Logger.js";
+import {
+  CopadoAuthError,
+  CopadoError,
+  CopadoTransientError,
+  errorFromResponse,
+} from "./errors.js";
+import type {
+  CheckStatusResponse,
+  CommitRequest,
+  CommitResponse,
+  CopadoAction,
+  CopadoEnvelope,
+  CopadoRequestMap,
+  CopadoResponseMap,
+  JobExecution,
+  PromotionDeploymentRequest,
+  PromotionDeploymentResponse,
+  PromotionRequest,
+  PromotionResponse,
+} from "./models.js";
+
+export interface CopadoClientOptions {
+  apiKey: string;
+  /** Base URL of the MC webhook API */
+  baseUrl?: string;
+  /** Extra headers sent with every request; cannot replace the key or content type */
+  headers?: Record<string, string>;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt for transient failures */
+  maxRetries?: number;
+  /** Initial backoff delay; doubled on every retry */
+  retryDelayMs?: number;
+  /** Upper bound for a single backoff delay */
+  maxRetryDelayMs?: number;
+  fetch?: typeof fetch;
+  /** Request and response summaries at info level, payloads and bodies at debug */
+  logger?: Logger;
+}
+
+export const DEFAULT_BASE_URL = 'https://app-api.copado.com/json/v1/webhook/mcwebhook';
+
+// Path segment of each webhook action, relative to the base URL
+export const ACTION_PATHS: Record<CopadoAction, string> = {
+  Commit: 'commit',
+  Promotion: 'promotion',
+  PromotionDeployment: 'promotiondeployment',
+  CheckStatusAction: 'checkStatusAction',
+};
+
+const USER_AGENT = 'Copado-MCP-Server/1.0.0';
+
+// Commit, Promotion and PromotionDeployment start work in Copado. After a timeout,
+// network failure or 5xx the first request may already have been accepted, so they
+// are only retried when Copado explicitly turned them away.
+const READ_ONLY_ACTIONS = new Set<CopadoAction>(['CheckStatusAction']);
+const REJECTED_STATUSES = [429, 503];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Shared client for the Copado MC webhooks. Builds the {action, key, payload}
+// envelope, handles timeouts and retries, and maps failures to typed errors.
+export class CopadoClient {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly logger: Logger;
+
+  constructor(options: CopadoClientOptions) {
+    if (!options.apiKey) {
+      throw new CopadoAuthError("API key is required. Provide it as a parameter or set COPADO_API_KEY environment variable.");
+    }
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.headers = options.headers ?? {};
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 8_000;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.logger = (options.logger ?? new Logger()).child({ component: 'copado-client' }, [options.apiKey, ...Object.values(this.headers)]);
+  }
+
+  urlFor(action: CopadoAction): string {
+    return `${this.baseUrl}/${ACTION_PATHS[action]}`;
+  }
+
+  commit(request: CommitRequest): Promise<CommitResponse> {
+    return this.send('Commit', request);
+  }
+
+  promote(request: PromotionRequest): Promise<PromotionResponse> {
+    return this.send('Promotion', request);
+  }
+
+  deployPromotion(request: PromotionDeploymentRequest): Promise<PromotionDeploymentResponse> {
+    return this.send('PromotionDeployment', request);
+  }
+
+  async checkStatus(jobExecutionId: string): Promise<CheckStatusResponse> {
+    const result = await this.send('CheckStatusAction', { jobexecutionid: jobExecutionId });
+    // Depending on the org, the job execution is either wrapped or returned as-is
+    const jobExecution = (result.jobExecution ?? result) as JobExecution;
+    return { ...result, jobExecution };
+  }
+
+  // Send one webhook action, retrying transient failures with exponential backoff
+  async send<A extends CopadoAction>(action: A, payload: CopadoRequestMap[A]): Promise<CopadoResponseMap[A]> {
+    const envelope: CopadoEnvelope<A> = { action, key: this.apiKey, payload };
+    const url = this.urlFor(action);
+
+    this.logger.info('Copado request', { action, url });
+    this.logger.debug('Copado request payload', { action, envelope });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(action, url, envelope);
+      } catch (error) {
+        if (!this.shouldRetry(action, error) || attempt >= this.maxRetries) {
+          throw error;
+        }
+        const backoff = Math.min(this.retryDelayMs * 2 ** attempt, this.maxRetryDelayMs);
+        const retryAfterMs = (error as CopadoTransientError).retryAfterMs;
+        const delay = retryAfterMs !== undefined
+          ? Math.min(retryAfterMs, this.maxRetryDelayMs)
+          : backoff + Math.random() * backoff * 0.2;
+        this.logger.warn('Copado request failed; retrying', { action, attempt: attempt + 1, delayMs: Math.round(delay), error });
+        await sleep(delay);
+      }
+    }
+  }
+
+  private shouldRetry(action: CopadoAction, error: unknown): boolean {
+    if (!(error instanceof CopadoError) || !error.retryable) {
+      return false;
+    }
+    return READ_ONLY_ACTIONS.has(action) || (error.status !== undefined && REJECTED_STATUSES.includes(error.status));
+  }
+
+  private async attempt<A extends CopadoAction>(
+    action: A,
+    url: string,
+    envelope: CopadoEnvelope<A>
+  ): Promise<CopadoResponseMap[A]> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    let responseText: string;
+    try {
+      response = await this.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'User-Agent': USER_AGENT,
+          ...this.headers,
+          'Content-Type': 'application/json',
+          'copado-webhook-key': this.apiKey,
+        },
+        body: JSON.stringify(envelope),
+        signal: controller.signal,
+      });
+      responseText = await response.text();
+    } catch (error) {
+      const reason = controller.signal.aborted
+        ? `timed out after ${this.timeoutMs}ms`
+        : `failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new CopadoTransientError(`Copado ${action} request ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.logger.info('Copado response', {
+      action,
+      status: response.status,
+      statusText: response.statusText,
+      durationMs: Date.now() - startedAt,
+    });
+    this.logger.debug('Copado response body', { action, body: responseText });
+
+    if (!response.ok) {
+      throw errorFromResponse(
+        action,
+        response.status,
+        response.statusText,
+        responseText,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    try {
+      return JSON.parse(responseText) as CopadoResponseMap[A];
+    } catch {
+      return { message: responseText } as CopadoResponseMap[A];
+    }
+  }
+}
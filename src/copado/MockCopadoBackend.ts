@@ -0,0 +1,447 @@
+import type { SharedSqlTag } from "../storage/sql.js";
+import { ACTION_PATHS } from "./CopadoClient.js";
+import type {
+  CheckStatusRequest,
+  CommitChange,
+  CommitRequest,
+  CopadoAction,
+  CopadoEnvelope,
+  JobExecution,
+  PromotionDeploymentRequest,
+  PromotionRequest,
+} from "./models.js";
+
+// Failures the mock backend can be told to produce
+export interface MockFailures {
+  /** Reject every webhook key with 401 */
+  auth?: boolean;
+  /** Answer this many requests with 500 before recovering; only status checks retry them */
+  serverErrors?: number;
+  /** Fail every deployment and validation job, or only those of promotions with these user stories */
+  deployments?: boolean | string[];
+  /** Error message of failed deployments; by default a component error, a test failure and low coverage */
+  deploymentError?: string;
+  /** Fail the commit jobs of these user stories */
+  commits?: string[];
+}
+
+export interface MockBackendConfig {
+  /** How long a job stays Not Started */
+  queuedMs: number;
+  /** How long a job stays In Progress before it finishes */
+  runningMs: number;
+  /** When set, only these user stories exist and others answer 404; by default any ID is accepted */
+  userStories?: string[];
+  failures: MockFailures;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockBackendConfig = {
+  queuedMs: 2_000,
+  runningMs: 10_000,
+  failures: {},
+};
+
+// Webhook key used when mock mode is on and no key was configured
+export const MOCK_API_KEY = 'mock-webhook-key';
+
+// Parse the COPADO_MOCK Worker variable: "true" for the defaults, or a JSON object
+// overriding them. Unset, empty and "false" leave mock mode off.
+export function parseMockConfig(value: string | undefined): MockBackendConfig | undefined {
+  const raw = value?.trim();
+  if (!raw || raw === 'false') {
+    return undefined;
+  }
+  if (raw === 'true') {
+    return DEFAULT_MOCK_CONFIG;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<MockBackendConfig>;
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('COPADO_MOCK must be "true" or a JSON object');
+  }
+  for (const field of ['queuedMs', 'runningMs'] as const) {
+    if (parsed[field] !== undefined && !(Number.isFinite(parsed[field]) && parsed[field] >= 0)) {
+      throw new Error(`COPADO_MOCK ${field} must be a number of milliseconds`);
+    }
+  }
+  return {
+    ...DEFAULT_MOCK_CONFIG,
+    ...parsed,
+    failures: { ...DEFAULT_MOCK_CONFIG.failures, ...parsed.failures },
+  };
+}
+
+type JobKind = 'commit' | 'promotion' | 'deployment' | 'validation';
+
+const TEMPLATES: Record<JobKind, string> = {
+  commit: 'SFDX Commit',
+  promotion: 'SFDX Promote',
+  deployment: 'SFDX Deploy',
+  validation: 'SFDX Validate',
+};
+
+// Step names of each job, run one after another during the In Progress phase
+const STEPS: Record<JobKind, string[]> = {
+  commit: ['Retrieve metadata', 'Commit to feature branch'],
+  promotion: ['Create promotion branch', 'Merge user story branches'],
+  deployment: ['Deploy metadata', 'Run Apex tests'],
+  validation: ['Validate deployment', 'Run Apex tests'],
+};
+
+// Key prefixes of the records, so IDs look like the ones a real org returns
+const ID_PREFIXES = {
+  userStory: 'a1u',
+  commit: 'a1c',
+  promotion: 'a0q',
+  deployment: 'a0d',
+  jobExecution: 'a0s',
+};
+
+const ID_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// 18-character Salesforce-style ID
+function mockId(prefix: string): string {
+  const random = crypto.getRandomValues(new Uint8Array(18 - prefix.length));
+  return prefix + Array.from(random, byte => ID_CHARACTERS[byte % ID_CHARACTERS.length]).join('');
+}
+
+interface UserStoryRow {
+  id: string;
+  changes: string;
+}
+
+interface PromotionRow {
+  id: string;
+  user_story_ids: string;
+  source_environment_id: string;
+  merged_at: number;
+}
+
+interface JobRow {
+  id: string;
+  kind: JobKind;
+  created_at: number;
+  starts_at: number;
+  promotion_id: string | null;
+  deployment_id: string | null;
+  data_json: string;
+  error_message: string | null;
+}
+
+class MockResponseError extends Error {
+  constructor(readonly status: number, readonly statusText: string, message: string) {
+    super(message);
+    this.name = 'MockResponseError';
+  }
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  500: 'Internal Server Error',
+};
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: STATUS_TEXT[status],
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Simulated Copado MC webhook API for offline development, demos and end-to-end
+// tests. Stands in for the network through CopadoClient's `fetch` option and keeps
+// user stories, promotions, deployments and job executions in the tenant's shared
+// storage, so every session of the tenant (and the local CLI) sees the same org.
+// Job statuses are derived from the clock: Not Started for queuedMs, In Progress
+// for runningMs, then Successful or Error.
+export class MockCopadoBackend {
+  // Remaining injected 500s; counted per isolate, so a restart injects them again
+  private serverErrorsLeft: number;
+
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly sql: SharedSqlTag, readonly config: MockBackendConfig = DEFAULT_MOCK_CONFIG) {
+    this.serverErrorsLeft = config.failures.serverErrors ?? 0;
+    this.ready = this.migrate();
+  }
+
+  private async migrate(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_mock_user_stories (
+        id TEXT PRIMARY KEY,
+        changes TEXT NOT NULL
+      )
+    `;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS copado_mock_promotions (
+        id TEXT PRIMARY KEY,
+        user_story_ids TEXT NOT NULL,
+        source_environment_id TEXT NOT NULL,
+        merged_at INTEGER NOT NULL
+      )
+    `;
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_mock_jobs (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        starts_at INTEGER NOT NULL,
+        promotion_id TEXT,
+        deployment_id TEXT,
+        data_json TEXT NOT NULL,
+        error_message TEXT
+      )
+    `;
+  }
+
+  // Drop-in replacement for fetch, answering the webhook URLs CopadoClient calls
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const path = url.pathname.split('/').filter(Boolean).pop() ?? '';
+    const action = (Object.keys(ACTION_PATHS) as CopadoAction[]).find(candidate => ACTION_PATHS[candidate] === path);
+
+    try {
+      if (this.config.failures.auth) {
+        throw new MockResponseError(401, 'Unauthorized', 'Invalid webhook key (injected by the mock backend)');
+      }
+      if (this.serverErrorsLeft > 0) {
+        this.serverErrorsLeft--;
+        throw new MockResponseError(500, 'Internal Server Error', 'Internal server error (injected by the mock backend)');
+      }
+      if (!action) {
+        throw new MockResponseError(404, 'Not Found', `Unknown webhook endpoint "${path}"`);
+      }
+
+      let envelope: CopadoEnvelope<CopadoAction>;
+      try {
+        envelope = JSON.parse(typeof init?.body === 'string' ? init.body : await new Request(input, init).text());
+      } catch {
+        throw new MockResponseError(400, 'Bad Request', 'Request body is not valid JSON');
+      }
+      if (!envelope.key) {
+        throw new MockResponseError(401, 'Unauthorized', 'Missing webhook key');
+      }
+      if (envelope.action !== action) {
+        throw new MockResponseError(400, 'Bad Request', `Action "${envelope.action}" does not match the ${path} endpoint`);
+      }
+
+      return jsonResponse(200, await this.handle(envelope));
+    } catch (error) {
+      if (error instanceof MockResponseError) {
+        return jsonResponse(error.status, { message: error.message });
+      }
+      throw error;
+    }
+  };
+
+  private async handle(envelope: CopadoEnvelope<CopadoAction>): Promise<unknown> {
+    await this.ready;
+    const payload = envelope.payload ?? {};
+    switch (envelope.action) {
+      case 'Commit':
+        return this.commit(payload as CommitRequest);
+      case 'Promotion':
+        return this.promote(payload as PromotionRequest);
+      case 'PromotionDeployment':
+        return this.deployPromotion(payload as PromotionDeploymentRequest);
+      case 'CheckStatusAction':
+        return this.checkStatus(payload as CheckStatusRequest);
+      default:
+        throw new MockResponseError(400, 'Bad Request', `Unknown action "${envelope.action}"`);
+    }
+  }
+
+  private async commit({ userStoryId, changes, message }: CommitRequest) {
+    if (!Array.isArray(changes) || changes.length === 0) {
+      throw new MockResponseError(400, 'Bad Request', 'changes must be a non-empty array');
+    }
+    const userStory = await this.userStory(userStoryId);
+    const committed = [...JSON.parse(userStory.changes) as CommitChange[], ...changes];
+    await this.sql`UPDATE copado_mock_user_stories SET changes = ${JSON.stringify(committed)} WHERE id = ${userStoryId}`;
+
+    const commitId = mockId(ID_PREFIXES.commit);
+    const failed = this.config.failures.commits?.includes(userStoryId);
+    const job = await this.createJob('commit', Date.now(), {
+      data: { userStoryId, commitId, message, featureBranch: `feature/${userStoryId}`, changes },
+      errorMessage: failed ? `Commit failed: could not retrieve ${changes[0].t} ${changes[0].n} from the source org` : undefined,
+    });
+    return { commitId, jobExecution: this.jobExecution(job) };
+  }
+
+  private async promote({ userStoryIds, executeDeployment, deploymentDryRun, sourceEnvironmentId }: PromotionRequest) {
+    if (!Array.isArray(userStoryIds) || userStoryIds.length === 0) {
+      throw new MockResponseError(400, 'Bad Request', 'userStoryIds must be a non-empty array');
+    }
+    if (!sourceEnvironmentId) {
+      throw new MockResponseError(400, 'Bad Request', 'sourceEnvironmentId is required');
+    }
+    for (const userStoryId of userStoryIds) {
+      await this.userStory(userStoryId);
+    }
+
+    const promotionId = mockId(ID_PREFIXES.promotion);
+    const now = Date.now();
+    const mergedAt = now + this.config.queuedMs + this.config.runningMs;
+    await this.sql`
+      INSERT INTO copado_mock_promotions (id, user_story_ids, source_environment_id, merged_at)
+      VALUES (${promotionId}, ${JSON.stringify(userStoryIds)}, ${sourceEnvironmentId}, ${mergedAt})
+    `;
+    const job = await this.createJob('promotion', now, {
+      promotionId,
+      data: {
+        promotionId,
+        userStoryIds,
+        userStoryBranches: userStoryIds.map(id => `feature/${id}`),
+        promotionBranch: `promotion/${promotionId}`,
+        sourceEnvironmentId,
+      },
+    });
+
+    return {
+      promotionId,
+      jobExecution: this.jobExecution(job),
+      // The deployment starts once the promotion branch is merged
+      deploymentJobExecution: executeDeployment
+        ? this.jobExecution(await this.createDeployment(promotionId, userStoryIds, Boolean(deploymentDryRun), mergedAt))
+        : undefined,
+    };
+  }
+
+  private async deployPromotion({ promotionId }: PromotionDeploymentRequest) {
+    const [promotion] = await this.sql<PromotionRow>`SELECT * FROM copado_mock_promotions WHERE id = ${promotionId ?? ''}`;
+    if (!promotion) {
+      throw new MockResponseError(404, 'Not Found', `Promotion ${promotionId} does not exist`);
+    }
+    const job = await this.createDeployment(promotion.id, JSON.parse(promotion.user_story_ids), false, Math.max(Date.now(), promotion.merged_at));
+    return { jobExecution: this.jobExecution(job) };
+  }
+
+  private async checkStatus({ jobexecutionid }: CheckStatusRequest) {
+    const [job] = await this.sql<JobRow>`SELECT * FROM copado_mock_jobs WHERE id = ${jobexecutionid ?? ''}`;
+    if (!job) {
+      throw new MockResponseError(404, 'Not Found', `Job execution ${jobexecutionid} does not exist`);
+    }
+    return { jobExecution: this.jobExecution(job) };
+  }
+
+  // Existing user story, created on first use unless the config lists the ones that exist
+  private async userStory(userStoryId: string): Promise<UserStoryRow> {
+    if (!userStoryId) {
+      throw new MockResponseError(400, 'Bad Request', 'userStoryId is required');
+    }
+    const [existing] = await this.sql<UserStoryRow>`SELECT * FROM copado_mock_user_stories WHERE id = ${userStoryId}`;
+    if (existing) {
+      return existing;
+    }
+    if (this.config.userStories && !this.config.userStories.includes(userStoryId)) {
+      throw new MockResponseError(404, 'Not Found', `User story ${userStoryId} does not exist`);
+    }
+    // Another session may create the same user story in the meantime
+    await this.sql`
+      INSERT INTO copado_mock_user_stories (id, changes) VALUES (${userStoryId}, ${'[]'}) ON CONFLICT (id) DO NOTHING
+    `;
+    const [created] = await this.sql<UserStoryRow>`SELECT * FROM copado_mock_user_stories WHERE id = ${userStoryId}`;
+    return created;
+  }
+
+  private async createDeployment(promotionId: string, userStoryIds: string[], dryRun: boolean, startsAt: number): Promise<JobRow> {
+    const deploymentId = mockId(ID_PREFIXES.deployment);
+    const { deployments } = this.config.failures;
+    const failed = deployments === true || (Array.isArray(deployments) && userStoryIds.some(id => deployments.includes(id)));
+
+    return this.createJob(dryRun ? 'validation' : 'deployment', startsAt, {
+      promotionId,
+      deploymentId,
+      data: {
+        promotionId,
+        deploymentId,
+        userStoryIds,
+        userStoryBranches: userStoryIds.map(id => `feature/${id}`),
+        promotionBranch: `promotion/${promotionId}`,
+        deploymentDryRun: dryRun,
+      },
+      errorMessage: failed ? this.config.failures.deploymentError ?? await this.deploymentError(userStoryIds) : undefined,
+    });
+  }
+
+  // Failure report in the format Copado shows, naming a component the user stories committed
+  private async deploymentError(userStoryIds: string[]): Promise<string> {
+    const changes: CommitChange[] = [];
+    for (const id of userStoryIds) {
+      const [row] = await this.sql<UserStoryRow>`SELECT * FROM copado_mock_user_stories WHERE id = ${id}`;
+      changes.push(...(row ? JSON.parse(row.changes) as CommitChange[] : []));
+    }
+    const component = changes.find(change => change.a !== 'Delete') ?? { t: 'ApexClass', n: 'AccountService' };
+
+    return [
+      'Deployment failed.',
+      `${component.t} ${component.n}: Variable does not exist: accountId (line 12, column 5)`,
+      `${component.n.replace(/\W/g, '')}Test.testDefaults: System.AssertException: Assertion Failed: Expected: 1, Actual: 0`,
+      'Average test coverage across all Apex Classes and Triggers is 68%, at least 75% test coverage is required.',
+    ].join('\n');
+  }
+
+  private async createJob(kind: JobKind, startsAt: number, fields: {
+    promotionId?: string;
+    deploymentId?: string;
+    data: Record<string, unknown>;
+    errorMessage?: string;
+  }): Promise<JobRow> {
+    const [row] = await this.sql<JobRow>`
+      INSERT INTO copado_mock_jobs (id, kind, created_at, starts_at, promotion_id, deployment_id, data_json, error_message)
+      VALUES (
+        ${mockId(ID_PREFIXES.jobExecution)}, ${kind}, ${Date.now()}, ${startsAt}, ${fields.promotionId ?? null},
+        ${fields.deploymentId ?? null}, ${JSON.stringify(fields.data)}, ${fields.errorMessage ?? null}
+      )
+      RETURNING *
+    `;
+    return row;
+  }
+
+  // The job execution record as it stands now on the configured timeline
+  private jobExecution(job: JobRow): JobExecution {
+    const { queuedMs, runningMs } = this.config;
+    const now = Date.now();
+    const runningAt = job.starts_at + queuedMs;
+    const finishedAt = runningAt + runningMs;
+    const finished = now >= finishedAt;
+    const status = now < runningAt ? 'Not Started' : !finished ? 'In Progress' : job.error_message ? 'Error' : 'Successful';
+
+    // The running phase is split evenly over the steps; a failed job fails on its last step
+    const names = STEPS[job.kind];
+    const slot = runningMs / names.length;
+    const records = names.map((name, index) => {
+      const stepEnd = runningAt + slot * (index + 1);
+      const last = index === names.length - 1;
+      const stepStatus = now < runningAt + slot * index
+        ? 'Not Started'
+        : now < stepEnd && !(finished && last)
+          ? 'In Progress'
+          : last && job.error_message ? 'Error' : 'Success';
+      return {
+        Name: name,
+        copado__Order__c: index + 1,
+        copado__Type__c: 'Function',
+        copado__Status__c: stepStatus,
+        copado__Result__r: stepStatus === 'Error' ? { copado__Error_Message__c: job.error_message } : undefined,
+      };
+    });
+
+    return {
+      Id: job.id,
+      Name: `${TEMPLATES[job.kind]} ${job.id.slice(-6)}`,
+      CreatedDate: new Date(job.created_at).toISOString(),
+      LastModifiedDate: new Date(Math.max(job.created_at, Math.min(now, finishedAt))).toISOString(),
+      copado__Status__c: status,
+      copado__Template__c: TEMPLATES[job.kind],
+      copado__Promotion__c: job.promotion_id ?? undefined,
+      copado__Deployment__c: job.deployment_id ?? undefined,
+      copado__DataJson__c: job.data_json,
+      copado__ErrorMessage__c: status === 'Error' ? job.error_message ?? undefined : undefined,
+      copado__JobSteps__r: { totalSize: records.length, done: true, records },
+    };
+  }
+}
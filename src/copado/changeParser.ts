@@ -0,0 +1,249 @@
+import { type CommitAction, type CommitChange, DEFAULT_MODULE } from "./models.js";
+
+// How a component was recognised in a description:
+// pattern        – a name next to a type keyword ("AccountController apex class")
+// fallback       – a capitalized word, typed from nearby keywords or ApexClass
+// quoted-default – a quoted name with no type given, assumed to be an ApexClass
+export type MatchConfidence = 'pattern' | 'fallback' | 'quoted-default';
+
+export interface ParsedChange {
+  change: CommitChange;
+  confidence: MatchConfidence;
+  /** Type keyword the metadata type was taken from, if any */
+  keyword?: string;
+}
+
+export interface ParsedDescription {
+  changes: ParsedChange[];
+  warnings: string[];
+}
+
+// Action verbs and the Copado action they stand for
+const ACTION_WORDS: Record<string, CommitAction> = {
+  'added': 'Add',
+  'add': 'Add',
+  'created': 'Add',
+  'create': 'Add',
+  'new': 'Add',
+  'modified': 'Add',
+  'modify': 'Add',
+  'changed': 'Add',
+  'updated': 'Add',
+  'update': 'Add',
+  'edited': 'Add',
+  'fixed': 'Add',
+  'refactored': 'Add',
+  'deleted': 'Delete',
+  'delete': 'Delete',
+  'removed': 'Delete',
+  'remove': 'Delete',
+  'dropped': 'Delete',
+  'retrieve only': 'RetrieveOnly',
+  'retrieve-only': 'RetrieveOnly',
+  'retrieved': 'RetrieveOnly',
+  'retrieve': 'RetrieveOnly'
+};
+
+// Longest phrases first so "retrieve only" wins over "retrieve"
+const ACTION_PATTERN = new RegExp(
+  `\\b(${Object.keys(ACTION_WORDS).sort((a, b) => b.length - a.length).join('|')})\\b`,
+  'i'
+);
+
+// Punctuation and conjunctions that separate one change from the next
+const CLAUSE_BOUNDARY = /[;,!?\n]|\.(?=\s|$)|\b(?:and|but|then|while|plus|also)\b/gi;
+
+// Common Salesforce metadata type mappings with more variations
+const TYPE_KEYWORDS = new Map<string, string>([
+  ['apex class', 'ApexClass'],
+  ['class', 'ApexClass'],
+  ['apex trigger', 'ApexTrigger'],
+  ['trigger', 'ApexTrigger'],
+  ['lightning component', 'LightningComponentBundle'],
+  ['lwc', 'LightningComponentBundle'],
+  ['component', 'LightningComponentBundle'],
+  ['flow', 'Flow'],
+  ['custom object', 'CustomObject'],
+  ['object', 'CustomObject'],
+  ['custom field', 'CustomField'],
+  ['field', 'CustomField'],
+  ['layout', 'Layout'],
+  ['permission set', 'PermissionSet'],
+  ['profile', 'Profile'],
+  ['custom label', 'CustomLabel'],
+  ['label', 'CustomLabel'],
+  ['validation rule', 'ValidationRule'],
+  ['workflow rule', 'WorkflowRule'],
+  ['email template', 'EmailTemplate'],
+  ['report', 'Report'],
+  ['dashboard', 'Dashboard']
+]);
+
+// Keywords that map to one type but commonly mean another
+const AMBIGUOUS_KEYWORDS = new Map<string, string>([
+  ['component', 'could also be an Aura or Visualforce component'],
+  ['label', 'could also be a field label rather than a custom label'],
+  ['object', 'could also be a standard object'],
+  ['field', 'could also be a standard field, and custom fields are named Object.Field__c']
+]);
+
+// Words to exclude from component names
+const EXCLUDE_WORDS = new Set([
+  'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'made', 'some', 'changes', 'also', 'gave', 'access', 'it', 'them', 'this', 'that',
+  'add', 'modify', 'delete', 'user', 'story', 'updated', 'created', 'modified',
+  'changed', 'new', 'old', 'existing', 'current', 'previous', 'next', 'first', 'last',
+  ...Object.keys(ACTION_WORDS)
+]);
+
+// A later, weaker match never replaces a stronger one for the same name
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = {
+  'pattern': 2,
+  'fallback': 1,
+  'quoted-default': 0
+};
+
+interface ActionClause {
+  start: number;
+  end: number;
+  action: CommitAction;
+}
+
+// Split a description into clauses, each carrying the action verb it contains.
+// Clauses without a verb inherit the previous one ("deleted Foo and Bar classes"),
+// and leading clauses take the first verb that follows ("Foo class was deleted").
+function actionClauses(description: string): ActionClause[] {
+  const spans: Array<{ start: number, end: number, action?: CommitAction }> = [];
+  let start = 0;
+  for (const boundary of [...description.matchAll(CLAUSE_BOUNDARY), null]) {
+    const end = boundary ? boundary.index! : description.length;
+    const verb = ACTION_PATTERN.exec(description.slice(start, end));
+    spans.push({ start, end, action: verb ? ACTION_WORDS[verb[1].toLowerCase()] : undefined });
+    start = end + (boundary ? boundary[0].length : 0);
+  }
+
+  let action = spans.find(span => span.action)?.action ?? 'Add';
+  return spans.map(span => {
+    action = span.action ?? action;
+    return { start: span.start, end: span.end, action };
+  });
+}
+
+function actionAt(clauses: ActionClause[], index: number): CommitAction {
+  const clause = clauses.find(candidate => index >= candidate.start && index < candidate.end);
+  return (clause ?? clauses[clauses.length - 1]).action;
+}
+
+function isComponentName(name: string): boolean {
+  return name.length > 1 &&
+    !EXCLUDE_WORDS.has(name.toLowerCase()) &&
+    /^[A-Z][A-Za-z0-9_]*$/.test(name);
+}
+
+function warningFor(name: string, parsed: ParsedChange): string | undefined {
+  const { change, confidence, keyword } = parsed;
+  if (confidence === 'quoted-default') {
+    return `"${name}" was quoted without a type and assumed to be an ApexClass`;
+  }
+  if (confidence === 'fallback') {
+    return keyword
+      ? `"${name}" matched only as a capitalized word; typed as ${change.t} from the nearby word "${keyword}"`
+      : `"${name}" matched only as a capitalized word; no type keyword nearby, so it was assumed to be an ApexClass`;
+  }
+  const ambiguity = keyword ? AMBIGUOUS_KEYWORDS.get(keyword) : undefined;
+  if (ambiguity) {
+    return `"${name}" was typed as ${change.t} from "${keyword}", which ${ambiguity}`;
+  }
+  return undefined;
+}
+
+// Parse a natural language description into Copado changes, recording how each
+// component was recognised and anything a person should double-check.
+export function parseChangeDescription(description: string): ParsedDescription {
+  // Each component takes the action of the clause it is mentioned in
+  const clauses = actionClauses(description);
+
+  // More sophisticated parsing: look for specific patterns
+  const componentPatterns = [
+    // Pattern: "ComponentName class/trigger/etc"
+    /\b([A-Z][A-Za-z0-9_]*)\s+(class|trigger|component|flow|object|field|layout|profile|label)\b/gi,
+    // Pattern: "class/trigger/etc ComponentName"
+    /\b(class|trigger|component|flow|object|field|layout|profile|label)\s+([A-Z][A-Za-z0-9_]*)\b/gi,
+    // Pattern: "apex class ComponentName" or "custom object ComponentName"
+    /\b(?:apex\s+)?(class|trigger|component|flow|object|field|layout|profile|label)\s+([A-Z][A-Za-z0-9_]*)\b/gi,
+    // Pattern: "ComponentName apex class"
+    /\b([A-Z][A-Za-z0-9_]*)\s+apex\s+(class|trigger)\b/gi,
+    // Pattern: quoted component names
+    /["']([A-Z][A-Za-z0-9_]+)["']/g
+  ];
+
+  const foundComponents = new Map<string, ParsedChange>();
+  const found = (name: string, type: string, index: number, confidence: MatchConfidence, keyword?: string) => {
+    const existing = foundComponents.get(name);
+    if (existing && CONFIDENCE_RANK[existing.confidence] > CONFIDENCE_RANK[confidence]) {
+      return;
+    }
+    foundComponents.set(name, {
+      change: { a: actionAt(clauses, index), n: name, t: type, m: DEFAULT_MODULE },
+      confidence,
+      keyword
+    });
+  };
+
+  // Process each pattern
+  for (const pattern of componentPatterns) {
+    for (const match of description.matchAll(pattern)) {
+      if (match[1] && match[2]) {
+        // Two capture groups - determine which is name and which is type
+        const firstKey = match[1].toLowerCase();
+        const secondKey = match[2].toLowerCase();
+        const secondType = TYPE_KEYWORDS.get(secondKey);
+        const firstType = TYPE_KEYWORDS.get(firstKey);
+
+        if (secondType && isComponentName(match[1])) {
+          // Second is type, first is name
+          found(match[1], secondType, match.index!, 'pattern', secondKey);
+        } else if (firstType && isComponentName(match[2])) {
+          // First is type, second is name
+          found(match[2], firstType, match.index!, 'pattern', firstKey);
+        }
+      } else if (isComponentName(match[1])) {
+        // Single capture group (quoted names)
+        found(match[1], 'ApexClass', match.index!, 'quoted-default');
+      }
+    }
+  }
+
+  // If no components found using patterns, try fallback approach
+  if (foundComponents.size === 0) {
+    // Look for capitalized words that might be component names
+    for (const match of description.matchAll(/\b([A-Z][A-Za-z0-9_]{2,})\b/g)) {
+      const name = match[1];
+      if (!isComponentName(name) || ['Add', 'Modify', 'Delete', 'User', 'Story'].includes(name)) {
+        continue;
+      }
+
+      // Try to infer type from context
+      const index = match.index!;
+      const beforeText = description.substring(Math.max(0, index - 20), index).toLowerCase();
+      const afterText = description.substring(index + name.length, index + name.length + 20).toLowerCase();
+      const contextText = `${beforeText} ${afterText}`;
+      const keyword = [...TYPE_KEYWORDS.keys()].find(candidate => contextText.includes(candidate));
+
+      found(name, TYPE_KEYWORDS.get(keyword ?? '') ?? 'ApexClass', index, 'fallback', keyword);
+    }
+  }
+
+  const changes = [...foundComponents.values()];
+  const warnings = [...foundComponents]
+    .map(([name, parsed]) => warningFor(name, parsed))
+    .filter((warning): warning is string => warning !== undefined);
+
+  return { changes, warnings };
+}
+
+// Fallback and quoted-default matches are guesses at the metadata type; committing
+// them could record the wrong component, so they need a person to confirm the type
+export function isGuessed({ confidence }: ParsedChange): boolean {
+  return confidence !== 'pattern';
+}
@@ -0,0 +1,42 @@
+import { CopadoAuthError } from "./errors.js";
+
+// Where a webhook key can come from, in order of precedence
+export type CredentialSource = 'argument' | 'session' | 'worker';
+
+export interface CredentialSources {
+  /** Key supplied when the MCP session was opened (header or connection config) */
+  sessionApiKey?: string;
+  /** Deployment-wide COPADO_API_KEY secret */
+  workerApiKey?: string;
+}
+
+export interface ResolvedCredential {
+  apiKey: string;
+  source: CredentialSource;
+}
+
+// Resolve the webhook key for one tool call: the key bound to the session, else the
+// Worker secret. The session's history, environments and idempotency results are
+// stored for the org of that key, so an argument may only repeat it; a different
+// org's key would mix the two orgs' data and could replay one org's results in the other.
+export function resolveApiKey(explicitApiKey: string | undefined, sources: CredentialSources): ResolvedCredential {
+  const sessionApiKey = sources.sessionApiKey?.trim();
+  const workerApiKey = sources.workerApiKey?.trim();
+  const bound: ResolvedCredential | undefined = sessionApiKey ? { apiKey: sessionApiKey, source: 'session' }
+    : workerApiKey ? { apiKey: workerApiKey, source: 'worker' }
+    : undefined;
+
+  const argument = explicitApiKey?.trim();
+  if (argument && argument !== bound?.apiKey) {
+    throw new CopadoAuthError(bound
+      ? "The apiKey argument differs from the key this session is bound to. Open a new session with that key (X-Copado-Api-Key header or apiKey config) to work on another org."
+      : "This session is not bound to a webhook key, so an apiKey argument cannot be used. Supply the key when connecting (X-Copado-Api-Key header or apiKey config).");
+  }
+  if (bound) {
+    return argument ? { apiKey: argument, source: 'argument' } : bound;
+  }
+
+  throw new CopadoAuthError(
+    "API key is required. Supply it when connecting (X-Copado-Api-Key header or apiKey config), or set the COPADO_API_KEY secret."
+  );
+}
@@ -0,0 +1,388 @@
+import { resolveMetadataType } from "./metadataTypes.js";
+import { changeFromSourcePath } from "./sourcePaths.js";
+
+// Break a failed deployment's error text (copado__ErrorMessage__c, step results or
+// a Metadata API deploy result) into per-component and per-test failures, grouped
+// into categories with a suggested fix for each.
+
+export const FAILURE_CATEGORIES = [
+  'missing-dependency',
+  'test-coverage',
+  'test-failure',
+  'field-integrity',
+  'validation-rule',
+  'compile-error',
+  'duplicate',
+  'locked-row',
+  'permission',
+  'other'
+] as const;
+
+export type FailureCategory = typeof FAILURE_CATEGORIES[number];
+
+export interface ComponentFailure {
+  type?: string;
+  name: string;
+  fileName?: string;
+  line?: number;
+  column?: number;
+  problem: string;
+  category: FailureCategory;
+}
+
+export interface TestFailure {
+  className: string;
+  methodName: string;
+  message: string;
+  stackTrace?: string;
+  category: FailureCategory;
+}
+
+export interface CoverageShortfall {
+  /** Apex class or trigger, or undefined for the org-wide average */
+  name?: string;
+  percent?: number;
+  message: string;
+}
+
+export interface FailureCategorySummary {
+  category: FailureCategory;
+  label: string;
+  count: number;
+  /** Components, tests or classes in this category */
+  items: string[];
+  suggestion: string;
+}
+
+export interface DeploymentFailureAnalysis {
+  componentFailures: ComponentFailure[];
+  testFailures: TestFailure[];
+  coverage: CoverageShortfall[];
+  categories: FailureCategorySummary[];
+  /** Lines that matched no known format, kept so nothing is silently lost */
+  unparsed: string[];
+}
+
+// Salesforce requires 75% coverage to deploy Apex to production
+export const REQUIRED_COVERAGE_PERCENT = 75;
+
+const CATEGORY_INFO: Record<FailureCategory, { label: string; suggestion: string }> = {
+  'missing-dependency': {
+    label: 'Missing dependency',
+    suggestion: 'Add the referenced components to the commit, or promote the user story that contains them first, then deploy again.'
+  },
+  'test-coverage': {
+    label: `Test coverage below ${REQUIRED_COVERAGE_PERCENT}%`,
+    suggestion: `Add or extend Apex tests for the listed classes until each is covered at least ${REQUIRED_COVERAGE_PERCENT}%, commit the tests to the same user story and deploy again.`
+  },
+  'test-failure': {
+    label: 'Apex test failure',
+    suggestion: 'Fix the failing test methods (or the code they exercise), commit the fix and run a validation before deploying.'
+  },
+  'field-integrity': {
+    label: 'Field integrity',
+    suggestion: 'Check that referenced fields, picklist values and lookup targets exist in the target org with the same type; deploy the referenced metadata first.'
+  },
+  'validation-rule': {
+    label: 'Validation rule',
+    suggestion: 'Test data violates a validation rule in the target org; update the test data setup or the rule.'
+  },
+  'compile-error': {
+    label: 'Compile error',
+    suggestion: 'Fix the code at the reported line and column, commit the corrected file and deploy again.'
+  },
+  'duplicate': {
+    label: 'Duplicate',
+    suggestion: 'Rename the component, or remove the conflicting one from the target org.'
+  },
+  'locked-row': {
+    label: 'Locked records',
+    suggestion: 'Another process held a lock on records the deployment touched; retry the deployment.'
+  },
+  'permission': {
+    label: 'Insufficient access',
+    suggestion: "The deploying user lacks access; check the profile and permission sets of the Copado credential for the target org."
+  },
+  'other': {
+    label: 'Other',
+    suggestion: 'Review the job logs in Copado for the full error.'
+  }
+};
+
+// Checked in order; the first matching pattern decides the category
+const CATEGORY_PATTERNS: [RegExp, FailureCategory][] = [
+  [/FIELD_INTEGRITY_EXCEPTION|field integrity exception/i, 'field-integrity'],
+  [/FIELD_CUSTOM_VALIDATION_EXCEPTION/i, 'validation-rule'],
+  [/UNABLE_TO_LOCK_ROW/i, 'locked-row'],
+  [/INSUFFICIENT_ACCESS|insufficient access|insufficient privileges|not permitted/i, 'permission'],
+  [/DUPLICATE_(?:VALUE|DEVELOPER_NAME|USERNAME)|duplicate value|already exists|duplicate (?:name|developer name)/i, 'duplicate'],
+  [/test coverage|code coverage/i, 'test-coverage'],
+  [/does not exist|no \w+ named|cannot be found|could not be found|not found|invalid type|unknown (?:type|field|object)|INVALID_CROSS_REFERENCE_KEY|dependent class is invalid|is not defined|undefined (?:variable|type)/i, 'missing-dependency'],
+  [/unexpected token|expecting|extraneous input|missing '[^']*'|illegal assignment|incompatible types|method must define a body|unreachable statement|syntax error/i, 'compile-error']
+];
+
+export function categorize(problem: string): FailureCategory {
+  return CATEGORY_PATTERNS.find(([pattern]) => pattern.test(problem))?.[1] ?? 'other';
+}
+
+// "(line 12, column 5)", "line 12:5", "(12:5)" or "line 12"
+function lineAndColumn(problem: string): { line?: number; column?: number } {
+  const match = /\(?line:?\s*(\d+)(?:,\s*col(?:umn)?:?\s*(\d+)|:(\d+))?\)?/i.exec(problem)
+    ?? /\((\d+):(\d+)\)\s*$/.exec(problem);
+  if (!match) {
+    return {};
+  }
+  const column = match[2] ?? match[3];
+  return { line: Number(match[1]), column: column ? Number(column) : undefined };
+}
+
+// Type and API name of a source file, e.g. classes/Foo.cls → ApexClass Foo
+function componentFromFile(fileName: string): { type?: string; name?: string } {
+  const change = changeFromSourcePath(fileName);
+  return change ? { type: change.t, name: change.n } : {};
+}
+
+function componentFailure(fields: { type?: string; name?: string; fileName?: string; problem: string; line?: number; column?: number }): ComponentFailure {
+  const fromFile = fields.fileName ? componentFromFile(fields.fileName) : {};
+  const position = fields.line !== undefined ? { line: fields.line, column: fields.column } : lineAndColumn(fields.problem);
+  const type = fields.type ? resolveMetadataType(fields.type) ?? fields.type : fromFile.type;
+  return {
+    type,
+    name: fields.name || fromFile.name || fields.fileName || 'unknown',
+    fileName: fields.fileName,
+    ...position,
+    problem: fields.problem.trim(),
+    category: categorize(fields.problem)
+  };
+}
+
+// Test failures inherit the category of their message (e.g. a validation rule
+// firing inside a test), falling back to a plain test failure
+function testFailure(className: string, methodName: string, message: string, stackTrace?: string): TestFailure {
+  const category = categorize(message);
+  return {
+    className,
+    methodName,
+    message: message.trim(),
+    stackTrace: stackTrace?.trim() || undefined,
+    category: category === 'other' || category === 'compile-error' ? 'test-failure' : category
+  };
+}
+
+// Coverage messages, org-wide or for one class or trigger
+const COVERAGE_PATTERNS: RegExp[] = [
+  /^(?:\d+\.\s+)?(?<name>[\w.]+)\s*(?:--|:)\s*.*?test coverage of selected apex (?:class|trigger) is (?<percent>\d+)%/i,
+  /average test coverage across all apex classes and triggers is (?<percent>\d+)%/i,
+  /code coverage (?:failure)?[^.\d]*?(?:is|of) (?<percent>\d+)%/i,
+  /(?<name>[\w.]+) has (?<percent>\d+)% (?:code )?coverage/i
+];
+
+// Per-line formats, tried in order
+const NUMBERED_FILE = /^\s*(?:\d+\.\s+)?(?<file>[\w.-]+(?:\/[\w.@-]+)+)\s*(?:\((?<name>[^)]+)\))?\s*--\s*(?:Error:\s*)?(?<problem>.+)$/;
+const TEST_METHOD = /^\s*(?:\d+\.\s+)?(?:Test failure,?\s*method:\s*)?(?<cls>\w+)\.(?<method>\w+)\s*(?:--|:)\s*(?<message>.+)$/i;
+const STACK_TRACE = /^\s*(?:Stack trace:\s*)?(?<trace>Class\.\w+\.\w+:\s*line \d+, column \d+.*)$/i;
+const TYPED_COMPONENT = /^\s*(?:\d+\.\s+)?(?<type>[A-Z][A-Za-z]+)\s+(?<name>[^:]+?)\s*(?::\s|\s(?:--|–|-)\s)\s*(?<problem>.+)$/;
+const CLI_TABLE_ROW = /^\s*\|?\s*(?:Error|Warning)\s+(?<name>[\w.\-/]+)\s+(?<problem>.+?)\s*$/;
+const NOISE = /^\s*(?:\|?\s*[─=-]{3,}.*|\|?\s*Type\s+Name\s+Problem.*|(?:=== )?(?:Component|Test) Failures?\s*\[\d+\].*|Deploy(?:ment)? failed\.?|[A-Za-z ]{3,40}:|Error(?:s)?:?|\d+ errors?\.?|[-*=]+)\s*$/i;
+
+function addCoverage(line: string, coverage: CoverageShortfall[]): boolean {
+  for (const pattern of COVERAGE_PATTERNS) {
+    const match = pattern.exec(line);
+    if (match?.groups) {
+      coverage.push({
+        name: match.groups.name,
+        percent: match.groups.percent ? Number(match.groups.percent) : undefined,
+        message: line.trim().replace(/^\d+\.\s+/, '')
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+// Metadata API deploy result objects (DeployResult, DeployDetails or any object
+// wrapping them), e.g. when Copado stores the raw result as JSON
+function analyzeDeployResult(value: unknown, analysis: DeploymentFailureAnalysis, depth = 0): void {
+  if (depth > 6 || typeof value !== 'object' || value === null) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      analyzeDeployResult(item, analysis, depth + 1);
+    }
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  const asList = (item: unknown): Record<string, unknown>[] =>
+    (Array.isArray(item) ? item : item ? [item] : []).filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null);
+
+  for (const failure of asList(record.componentFailures)) {
+    const problem = String(failure.problem ?? failure.message ?? '');
+    if (!problem || failure.success === true || failure.success === 'true') {
+      continue;
+    }
+    analysis.componentFailures.push(componentFailure({
+      type: failure.componentType ? String(failure.componentType) : undefined,
+      name: failure.fullName ? String(failure.fullName) : undefined,
+      fileName: failure.fileName ? String(failure.fileName) : undefined,
+      line: failure.lineNumber != null ? Number(failure.lineNumber) : undefined,
+      column: failure.columnNumber != null ? Number(failure.columnNumber) : undefined,
+      problem
+    }));
+  }
+
+  const testResult = (record.runTestResult ?? record.runTestsResult) as Record<string, unknown> | undefined;
+  if (testResult) {
+    for (const failure of asList(testResult.failures)) {
+      analysis.testFailures.push(testFailure(
+        String(failure.name ?? 'UnknownClass'),
+        String(failure.methodName ?? 'unknownMethod'),
+        String(failure.message ?? ''),
+        failure.stackTrace ? String(failure.stackTrace) : undefined
+      ));
+    }
+    for (const warning of asList(testResult.codeCoverageWarnings)) {
+      const message = String(warning.message ?? '');
+      const percent = /(\d+)%/.exec(message);
+      analysis.coverage.push({
+        name: warning.name ? String(warning.name) : undefined,
+        percent: percent ? Number(percent[1]) : undefined,
+        message
+      });
+    }
+  }
+
+  for (const [key, child] of Object.entries(record)) {
+    if (key !== 'componentFailures' && key !== 'runTestResult' && key !== 'runTestsResult') {
+      analyzeDeployResult(child, analysis, depth + 1);
+    }
+  }
+}
+
+function analyzeLines(text: string, analysis: DeploymentFailureAnalysis): void {
+  let lastTest: TestFailure | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || NOISE.test(line)) {
+      continue;
+    }
+
+    const stack = STACK_TRACE.exec(line);
+    if (stack?.groups && lastTest) {
+      lastTest.stackTrace = lastTest.stackTrace ? `${lastTest.stackTrace}\n${stack.groups.trace}` : stack.groups.trace;
+      continue;
+    }
+    lastTest = undefined;
+
+    if (addCoverage(line, analysis.coverage)) {
+      continue;
+    }
+
+    const file = NUMBERED_FILE.exec(line);
+    if (file?.groups) {
+      analysis.componentFailures.push(componentFailure({ fileName: file.groups.file, name: file.groups.name, problem: file.groups.problem }));
+      continue;
+    }
+
+    const typed = TYPED_COMPONENT.exec(line);
+    if (typed?.groups && resolveMetadataType(typed.groups.type)) {
+      analysis.componentFailures.push(componentFailure({ type: typed.groups.type, name: typed.groups.name, problem: typed.groups.problem }));
+      continue;
+    }
+
+    const test = TEST_METHOD.exec(line);
+    if (test?.groups) {
+      lastTest = testFailure(test.groups.cls, test.groups.method, test.groups.message);
+      analysis.testFailures.push(lastTest);
+      continue;
+    }
+
+    const row = CLI_TABLE_ROW.exec(line);
+    if (row?.groups) {
+      analysis.componentFailures.push(componentFailure({ name: row.groups.name, problem: row.groups.problem }));
+      continue;
+    }
+
+    analysis.unparsed.push(line);
+  }
+}
+
+// JSON documents embedded in the text, from the first brace or bracket to the last
+function embeddedJson(text: string): unknown {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start < 0 || end <= start) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+function summarize(analysis: DeploymentFailureAnalysis): FailureCategorySummary[] {
+  const items = new Map<FailureCategory, string[]>();
+  const add = (category: FailureCategory, item: string) => {
+    const list = items.get(category) ?? [];
+    if (!list.includes(item)) {
+      list.push(item);
+    }
+    items.set(category, list);
+  };
+
+  for (const failure of analysis.componentFailures) {
+    add(failure.category, failure.type ? `${failure.type} ${failure.name}` : failure.name);
+  }
+  for (const failure of analysis.testFailures) {
+    add(failure.category, `${failure.className}.${failure.methodName}`);
+  }
+  for (const shortfall of analysis.coverage) {
+    add('test-coverage', shortfall.name ?? `org-wide average${shortfall.percent !== undefined ? ` (${shortfall.percent}%)` : ''}`);
+  }
+  if (analysis.unparsed.length > 0 && items.size === 0) {
+    for (const line of analysis.unparsed) {
+      const category = categorize(line);
+      add(category, line.length > 120 ? `${line.slice(0, 117)}…` : line);
+    }
+  }
+
+  return FAILURE_CATEGORIES
+    .filter(category => items.has(category))
+    .map(category => ({
+      category,
+      label: CATEGORY_INFO[category].label,
+      count: items.get(category)!.length,
+      items: items.get(category)!,
+      suggestion: CATEGORY_INFO[category].suggestion
+    }));
+}
+
+// Analyze every error text a failed job produced; texts may be plain Copado or
+// Salesforce messages, or Metadata API deploy results serialized as JSON
+export function analyzeDeploymentFailure(...texts: (string | undefined)[]): DeploymentFailureAnalysis {
+  const analysis: DeploymentFailureAnalysis = { componentFailures: [], testFailures: [], coverage: [], categories: [], unparsed: [] };
+  const seen = new Set<string>();
+
+  for (const text of texts) {
+    if (!text?.trim() || seen.has(text)) {
+      continue;
+    }
+    seen.add(text);
+
+    const json = embeddedJson(text);
+    if (json !== undefined) {
+      const before = analysis.componentFailures.length + analysis.testFailures.length + analysis.coverage.length;
+      analyzeDeployResult(json, analysis);
+      if (analysis.componentFailures.length + analysis.testFailures.length + analysis.coverage.length > before) {
+        continue;
+      }
+    }
+    analyzeLines(text, analysis);
+  }
+
+  analysis.categories = summarize(analysis);
+  return analysis;
+}
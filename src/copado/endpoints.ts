@@ -0,0 +1,91 @@
+import { ACTION_PATHS } from "./CopadoClient.js";
+import { CopadoValidationError } from "./errors.js";
+import type { CopadoAction } from "./models.js";
+
+// Where the webhook calls of one Copado tenant go
+export interface EndpointProfile {
+  /** Scheme and host, e.g. https://app-api.copado.com or a regional host */
+  baseUrl: string;
+  /** API version path below the host */
+  apiPath: string;
+  /** Extra headers sent with every call, e.g. for a gateway in front of Copado */
+  headers: Record<string, string>;
+}
+
+export type EndpointProfiles = Map<string, EndpointProfile>;
+
+export const DEFAULT_PROFILE = 'default';
+
+export const DEFAULT_ENDPOINT: EndpointProfile = {
+  baseUrl: 'https://app-api.copado.com',
+  apiPath: '/json/v1/webhook/mcwebhook',
+  headers: {},
+};
+
+// Headers the client sets itself; a profile cannot replace them
+const RESERVED_HEADERS = ['content-type', 'copado-webhook-key'];
+
+// Parse the COPADO_ENDPOINTS JSON object of {"<profile>": {baseUrl?, apiPath?, headers?}}.
+// Missing fields fall back to the "default" profile, which itself defaults to app-api.copado.com.
+export function parseEndpointProfiles(json: string | undefined): EndpointProfiles {
+  const entries = json ? JSON.parse(json) as Record<string, Partial<EndpointProfile>> : {};
+  if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    throw new Error('COPADO_ENDPOINTS must be a JSON object of profile name to endpoint settings');
+  }
+
+  const defaults = { ...DEFAULT_ENDPOINT, ...entries[DEFAULT_PROFILE] };
+  const profiles: EndpointProfiles = new Map();
+  for (const [name, entry] of Object.entries<Partial<EndpointProfile>>({ [DEFAULT_PROFILE]: {}, ...entries })) {
+    const profile = {
+      baseUrl: entry.baseUrl ?? defaults.baseUrl,
+      apiPath: entry.apiPath ?? defaults.apiPath,
+      headers: { ...defaults.headers, ...entry.headers },
+    };
+    let url: URL;
+    try {
+      url = new URL(profile.baseUrl);
+    } catch {
+      throw new Error(`Invalid baseUrl "${profile.baseUrl}" for endpoint profile "${name}"`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`baseUrl of endpoint profile "${name}" must be an http or https URL`);
+    }
+    const reserved = Object.keys(profile.headers).find(header => RESERVED_HEADERS.includes(header.toLowerCase()));
+    if (reserved) {
+      throw new Error(`Endpoint profile "${name}" cannot set the ${reserved} header`);
+    }
+    profiles.set(name, profile);
+  }
+  return profiles;
+}
+
+// Profile for this call: the connection's choice, else the Worker's default. Only
+// configured profiles can be chosen, so a connection cannot send the key elsewhere.
+export function resolveEndpoint(profiles: EndpointProfiles, name: string | undefined): { name: string; profile: EndpointProfile } {
+  const profileName = name?.trim() || DEFAULT_PROFILE;
+  const profile = profiles.get(profileName);
+  if (profiles.size === 0) {
+    throw new CopadoValidationError('No valid endpoint profiles are configured; check the COPADO_ENDPOINTS Worker variable');
+  }
+  if (!profile) {
+    throw new CopadoValidationError(
+      `Unknown endpoint profile "${profileName}". Configured profiles: ${[...profiles.keys()].join(', ')}`
+    );
+  }
+  return { name: profileName, profile };
+}
+
+// Base URL the client appends the action paths to
+export function webhookBaseUrl(profile: EndpointProfile): string {
+  return `${profile.baseUrl.replace(/\/+$/, '')}/${profile.apiPath.replace(/^\/+|\/+$/g, '')}`.replace(/\/+$/, '');
+}
+
+export function actionUrls(profile: EndpointProfile): Record<CopadoAction, string> {
+  const baseUrl = webhookBaseUrl(profile);
+  return {
+    Commit: `${baseUrl}/${ACTION_PATHS.Commit}`,
+    Promotion: `${baseUrl}/${ACTION_PATHS.Promotion}`,
+    PromotionDeployment: `${baseUrl}/${ACTION_PATHS.PromotionDeployment}`,
+    CheckStatusAction: `${baseUrl}/${ACTION_PATHS.CheckStatusAction}`,
+  };
+}
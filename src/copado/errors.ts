@@ -0,0 +1,99 @@
+// Error hierarchy for Copado webhook calls. Tools can branch on the class
+// (or on `kind`) instead of matching on status codes in message strings.
+
+export type CopadoErrorKind = 'auth' | 'validation' | 'not-found' | 'transient' | 'unknown';
+
+export interface CopadoErrorOptions {
+  status?: number;
+  responseBody?: string;
+}
+
+export class CopadoError extends Error {
+  readonly kind: CopadoErrorKind = 'unknown';
+  readonly status?: number;
+  readonly responseBody?: string;
+
+  constructor(message: string, options: CopadoErrorOptions = {}) {
+    super(message);
+    this.name = 'CopadoError';
+    this.status = options.status;
+    this.responseBody = options.responseBody;
+  }
+
+  // Whether retrying the same request may succeed
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+// Missing, invalid or under-privileged webhook key (401/403)
+export class CopadoAuthError extends CopadoError {
+  readonly kind = 'auth';
+
+  constructor(message: string, options?: CopadoErrorOptions) {
+    super(message, options);
+    this.name = 'CopadoAuthError';
+  }
+}
+
+// Copado rejected the payload (400/422)
+export class CopadoValidationError extends CopadoError {
+  readonly kind = 'validation';
+
+  constructor(message: string, options?: CopadoErrorOptions) {
+    super(message, options);
+    this.name = 'CopadoValidationError';
+  }
+}
+
+// Record or endpoint does not exist (404)
+export class CopadoNotFoundError extends CopadoError {
+  readonly kind = 'not-found';
+
+  constructor(message: string, options?: CopadoErrorOptions) {
+    super(message, options);
+    this.name = 'CopadoNotFoundError';
+  }
+}
+
+// Rate limiting, server errors, timeouts and network failures
+export class CopadoTransientError extends CopadoError {
+  readonly kind = 'transient';
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options?: CopadoErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.name = 'CopadoTransientError';
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+// Map an HTTP status to the matching error class
+export function errorFromResponse(
+  action: string,
+  status: number,
+  statusText: string,
+  responseBody: string,
+  retryAfterMs?: number
+): CopadoError {
+  const message = `Copado ${action} request failed: ${status} ${statusText}. Response: ${responseBody}`;
+  const options = { status, responseBody };
+
+  if (status === 401 || status === 403) {
+    return new CopadoAuthError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new CopadoValidationError(message, options);
+  }
+  if (status === 404) {
+    return new CopadoNotFoundError(message, options);
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return new CopadoTransientError(message, { ...options, retryAfterMs });
+  }
+  return new CopadoError(message, options);
+}
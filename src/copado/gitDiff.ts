@@ -0,0 +1,229 @@
+import type { MetadataType } from "./metadataTypes.js";
+import type { CommitChange } from "./models.js";
+import { BUNDLE_TYPES, changeFromSourcePath, dedupeChanges, type SourceMappingResult } from "./sourcePaths.js";
+
+export type DiffFileStatus = 'added' | 'modified' | 'deleted';
+
+// One file of a diff. Renames are split into the deleted old path and the added new one.
+export interface DiffFile {
+  status: DiffFileStatus;
+  path: string;
+}
+
+export interface GitDiffMappingResult extends SourceMappingResult {
+  /** Files that are not Salesforce metadata, e.g. README.md or LWC Jest tests */
+  skipped: string[];
+}
+
+// Components stored as a folder of files. Deleting some of the files changes the
+// component; it is only gone when its -meta.xml file is deleted too.
+const FOLDER_TYPES = new Set<MetadataType>([...BUNDLE_TYPES, 'StaticResource']);
+
+// `git diff --name-status` letters: A, C, D, M, R, T and U (unmerged)
+const NAME_STATUS_LINE = /^([ACDMRTU])(\d{0,3})$/;
+
+// Undo git's C-style quoting of paths with spaces, quotes or non-ASCII characters
+function unquote(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"') || path.length < 2) {
+    return path;
+  }
+  const bytes: number[] = [];
+  const encoder = new TextEncoder();
+  const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      bytes.push(...encoder.encode(char));
+      continue;
+    }
+    const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+    if (octal) {
+      bytes.push(Number.parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      bytes.push(...encoder.encode(escapes[body[i + 1]] ?? body[i + 1] ?? ''));
+      i += 1;
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+// "a/force-app/..." → "force-app/..."; /dev/null stays as it is
+function stripPrefix(path: string): string {
+  const unquoted = unquote(path.trim());
+  return /^[ab]\//.test(unquoted) ? unquoted.slice(2) : unquoted;
+}
+
+// Paths of a "diff --git a/<old> b/<new>" header. Only a fallback: the ---/+++ and
+// rename lines are unambiguous, but mode-only and binary changes have none.
+function headerPaths(header: string): [string, string] | undefined {
+  const quoted = [...header.matchAll(/"(?:[^"\\]|\\.)*"/g)].map(match => match[0]);
+  if (quoted.length === 2) {
+    return [stripPrefix(quoted[0]), stripPrefix(quoted[1])];
+  }
+  const prefixed = /^a\/(.+) b\/(.+)$/.exec(header);
+  if (prefixed) {
+    return [prefixed[1], prefixed[2]];
+  }
+  // --no-prefix with an unchanged path: "<path> <path>"
+  const half = (header.length - 1) / 2;
+  if (Number.isInteger(half) && header.slice(0, half) === header.slice(half + 1)) {
+    return [header.slice(0, half), header.slice(0, half)];
+  }
+  return undefined;
+}
+
+function parseUnifiedDiff(diff: string): { files: DiffFile[], problems: string[] } {
+  const files: DiffFile[] = [];
+  const problems: string[] = [];
+
+  interface Block { header: string; status?: 'A' | 'D' | 'R' | 'C'; oldPath?: string; newPath?: string; inHunk: boolean }
+  let block: Block | undefined;
+
+  const finish = () => {
+    if (!block) {
+      return;
+    }
+    const fallback = headerPaths(block.header);
+    const oldPath = block.oldPath ?? fallback?.[0];
+    const newPath = block.newPath ?? fallback?.[1];
+    if (!oldPath || !newPath) {
+      problems.push(`Could not read the file paths of "diff --git ${block.header}"`);
+    } else if (block.status === 'A') {
+      files.push({ status: 'added', path: newPath });
+    } else if (block.status === 'D') {
+      files.push({ status: 'deleted', path: oldPath });
+    } else if (block.status === 'R') {
+      files.push({ status: 'deleted', path: oldPath }, { status: 'added', path: newPath });
+    } else if (block.status === 'C') {
+      files.push({ status: 'added', path: newPath });
+    } else {
+      files.push({ status: 'modified', path: newPath });
+    }
+    block = undefined;
+  };
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith('diff --git ')) {
+      finish();
+      block = { header: line.slice('diff --git '.length), inHunk: false };
+      continue;
+    }
+    // Hunk content can start with "---" or "+++" too, so only read the extended header
+    if (!block || block.inHunk) {
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      block.inHunk = true;
+    } else if (line.startsWith('new file mode')) {
+      block.status = 'A';
+    } else if (line.startsWith('deleted file mode')) {
+      block.status = 'D';
+    } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      block.status = line.startsWith('rename') ? 'R' : 'C';
+      block.oldPath = unquote(line.slice(line.indexOf(' from ') + ' from '.length));
+    } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      block.newPath = unquote(line.slice(line.indexOf(' to ') + ' to '.length));
+    } else if (line.startsWith('--- ')) {
+      const path = stripPrefix(line.slice(4).split('\t')[0]);
+      if (path === '/dev/null') {
+        block.status = 'A';
+      } else {
+        block.oldPath ??= path;
+      }
+    } else if (line.startsWith('+++ ')) {
+      const path = stripPrefix(line.slice(4).split('\t')[0]);
+      if (path === '/dev/null') {
+        block.status = 'D';
+      } else {
+        block.newPath ??= path;
+      }
+    }
+  }
+  finish();
+
+  return { files, problems };
+}
+
+function parseNameStatus(diff: string): { files: DiffFile[], problems: string[] } {
+  const files: DiffFile[] = [];
+  const problems: string[] = [];
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    // Git separates the fields with tabs; pasted output often has spaces instead
+    const [status = '', ...paths] = (line.includes('\t') ? line.split('\t') : line.trim().split(/\s+/))
+      .map(field => field.trim());
+    const letter = NAME_STATUS_LINE.exec(status)?.[1];
+    const expected = letter === 'R' || letter === 'C' ? 2 : 1;
+    if (!letter || paths.length !== expected || paths.some(path => !path)) {
+      problems.push(`Could not read diff line "${line.trim()}"`);
+      continue;
+    }
+
+    const [path, newPath] = paths.map(unquote);
+    if (letter === 'A') {
+      files.push({ status: 'added', path });
+    } else if (letter === 'D') {
+      files.push({ status: 'deleted', path });
+    } else if (letter === 'R') {
+      files.push({ status: 'deleted', path }, { status: 'added', path: newPath });
+    } else if (letter === 'C') {
+      files.push({ status: 'added', path: newPath });
+    } else {
+      files.push({ status: 'modified', path });
+    }
+  }
+
+  return { files, problems };
+}
+
+// Files of `git diff --name-status` output or a full unified diff (`git diff`, `git show`)
+export function parseGitDiff(diff: string): { files: DiffFile[], problems: string[] } {
+  return /^diff --git /m.test(diff) ? parseUnifiedDiff(diff) : parseNameStatus(diff);
+}
+
+// Files in the SFDX source tree that are never deployed
+function isTooling(path: string): boolean {
+  return path.split('/').some(segment => segment === '__tests__' || segment.startsWith('.'));
+}
+
+// Map the files of a diff to Copado changes, one per component. A component is
+// added when any of its files was added or modified and deleted when all of them
+// were deleted; folder components (LWC, Aura, static resources) additionally need
+// their -meta.xml deleted, since removing a single file only changes the bundle.
+export function changesFromGitDiff(diff: string): GitDiffMappingResult {
+  const { files, problems } = parseGitDiff(diff);
+  const skipped: string[] = [];
+  const components = new Map<string, { change: CommitChange, files: DiffFile[] }>();
+
+  for (const file of files) {
+    const change = isTooling(file.path) ? undefined : changeFromSourcePath(file.path);
+    // lwc/jsconfig.json and similar files sit next to the bundles, not in one
+    if (!change || (BUNDLE_TYPES.has(change.t as MetadataType) && change.n.includes('.'))) {
+      skipped.push(file.path);
+      continue;
+    }
+    const key = `${change.t}:${change.n}:${change.m}`;
+    const component = components.get(key) ?? { change, files: [] };
+    component.files.push(file);
+    components.set(key, component);
+  }
+
+  const changes = [...components.values()].map(({ change, files }): CommitChange => {
+    const deleted = files.every(file => file.status === 'deleted')
+      && (!FOLDER_TYPES.has(change.t as MetadataType) || files.some(file => file.path.endsWith('-meta.xml')));
+    return { ...change, a: deleted ? 'Delete' : 'Add' };
+  });
+
+  if (files.length === 0 && problems.length === 0) {
+    problems.push('The diff does not list any files');
+  } else if (changes.length === 0 && problems.length === 0) {
+    problems.push(`None of the ${files.length} changed files are Salesforce metadata in an SFDX package directory`);
+  }
+
+  return { changes: dedupeChanges(changes), problems, skipped: [...new Set(skipped)] };
+}
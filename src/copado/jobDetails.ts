@@ -0,0 +1,194 @@
+import { isTerminalState, type JobState, normalizeJobState, rawJobStatus } from "./jobStatus.js";
+import type { JobExecution } from "./models.js";
+
+// Kind of work a job execution does, derived from its template
+export const JOB_TYPES = ['commit', 'promotion', 'deployment', 'validation', 'unknown'] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+// Result of one copado__JobStep__c of the execution
+export interface JobStepResult {
+  name: string;
+  type?: string;
+  order?: number;
+  status: string;
+  state: JobState;
+  errorMessage?: string;
+}
+
+// Records the job works on, from the execution's lookups and copado__DataJson__c
+export interface JobData {
+  userStoryIds: string[];
+  userStoryBranches: string[];
+  promotionId?: string;
+  deploymentId?: string;
+  promotionBranch?: string;
+  sourceBranch?: string;
+  destinationBranch?: string;
+}
+
+export interface JobDetails {
+  jobExecutionId?: string;
+  type: JobType;
+  template?: string;
+  status: string;
+  state: JobState;
+  finished: boolean;
+  startTime?: string;
+  endTime?: string;
+  errorMessage?: string;
+  steps: JobStepResult[];
+  data: JobData;
+}
+
+// Checked in order: validation templates usually mention deploying too
+const TEMPLATE_TYPES: [RegExp, JobType][] = [
+  [/validat|check.?only|dry.?run/i, 'validation'],
+  [/commit/i, 'commit'],
+  [/deploy/i, 'deployment'],
+  [/promot/i, 'promotion']
+];
+
+type Fields = Record<string, unknown>;
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function firstString(fields: Fields, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = stringValue(fields[key]);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Strings from a string, an array of strings, or an array of records with an ID
+function stringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map(item => (typeof item === 'object' && item !== null ? firstString(item as Fields, ['Id', 'id', 'name']) : stringValue(item)))
+    .filter((item): item is string => item !== undefined);
+}
+
+// copado__DataJson__c as an object; missing or malformed JSON yields {}
+export function parseDataJson(jobExecution: JobExecution): Fields {
+  const raw = jobExecution.copado__DataJson__c;
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function jobDataOf(jobExecution: JobExecution, dataJson: Fields = parseDataJson(jobExecution)): JobData {
+  const userStoryIds = new Set([
+    ...stringList(dataJson.userStoryIds),
+    ...stringList(dataJson.userStories),
+    ...stringList(dataJson.userStoryId)
+  ]);
+  const userStoryBranches = new Set([
+    ...stringList(dataJson.userStoryBranches),
+    ...stringList(dataJson.featureBranch)
+  ]);
+
+  return {
+    userStoryIds: [...userStoryIds],
+    userStoryBranches: [...userStoryBranches],
+    promotionId: stringValue(jobExecution.copado__Promotion__c) ?? firstString(dataJson, ['promotionId', 'promotion']),
+    deploymentId: stringValue(jobExecution.copado__Deployment__c) ?? firstString(dataJson, ['deploymentId', 'deployment']),
+    promotionBranch: firstString(dataJson, ['promotionBranch']),
+    sourceBranch: firstString(dataJson, ['sourceBranch']),
+    destinationBranch: firstString(dataJson, ['destinationBranch', 'targetBranch'])
+  };
+}
+
+// Template name first; without a recognizable template, the records the job points at
+export function jobTypeOf(jobExecution: JobExecution, dataJson: Fields = parseDataJson(jobExecution)): JobType {
+  const template = stringValue(jobExecution.copado__Template__c) ?? firstString(dataJson, ['templateName', 'template']);
+  if (template) {
+    const match = TEMPLATE_TYPES.find(([pattern]) => pattern.test(template));
+    if (match) {
+      return match[1];
+    }
+  }
+  if (jobExecution.copado__Deployment__c || dataJson.deploymentId) {
+    return 'deployment';
+  }
+  if (jobExecution.copado__Promotion__c || dataJson.promotionId) {
+    return 'promotion';
+  }
+  if (Array.isArray(dataJson.changes) || dataJson.commitId) {
+    return 'commit';
+  }
+  return 'unknown';
+}
+
+// Step records as a plain array, a Salesforce child relationship ({records: [...]})
+// or nothing at all, depending on how the org's webhook serializes them
+function stepRecords(jobExecution: JobExecution): Fields[] {
+  for (const key of ['steps', 'jobSteps', 'copado__JobSteps__r']) {
+    const value = jobExecution[key];
+    const records = Array.isArray(value) ? value : (value as { records?: unknown } | undefined)?.records;
+    if (Array.isArray(records)) {
+      return records.filter((record): record is Fields => typeof record === 'object' && record !== null);
+    }
+  }
+  return [];
+}
+
+function toStepResult(record: Fields, index: number): JobStepResult {
+  const result = (record.copado__Result__r ?? record.result ?? {}) as Fields;
+  const status = firstString(record, ['copado__Status__c', 'status'])
+    ?? firstString(result, ['copado__Status__c', 'status'])
+    ?? 'Unknown';
+  const order = Number(record.copado__Order__c ?? record.order);
+
+  return {
+    name: firstString(record, ['Name', 'name']) ?? `Step ${index + 1}`,
+    type: firstString(record, ['copado__Type__c', 'type']),
+    order: Number.isFinite(order) ? order : undefined,
+    status,
+    state: normalizeJobState(status),
+    errorMessage: firstString(result, ['copado__Error_Message__c', 'copado__ErrorMessage__c', 'errorMessage'])
+      ?? firstString(record, ['copado__ErrorMessage__c', 'errorMessage'])
+  };
+}
+
+// Consistent view of any job execution: what it is, where it stands, its step
+// results and the records it works on
+export function describeJob(jobExecution: JobExecution): JobDetails {
+  const dataJson = parseDataJson(jobExecution);
+  const status = rawJobStatus(jobExecution);
+  const state = normalizeJobState(status);
+  const steps = stepRecords(jobExecution)
+    .map(toStepResult)
+    .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER));
+
+  return {
+    jobExecutionId: jobExecution.Id,
+    type: jobTypeOf(jobExecution, dataJson),
+    template: stringValue(jobExecution.copado__Template__c),
+    status,
+    state,
+    finished: isTerminalState(state),
+    startTime: jobExecution.CreatedDate || jobExecution.startTime,
+    endTime: jobExecution.LastModifiedDate || jobExecution.endTime,
+    // Fall back to the first failed step when the execution has no message of its own
+    errorMessage: jobExecution.copado__ErrorMessage__c || jobExecution.errorMessage
+      || steps.find(step => step.state === 'failed' && step.errorMessage)?.errorMessage,
+    steps,
+    data: jobDataOf(jobExecution, dataJson)
+  };
+}
@@ -0,0 +1,48 @@
+import type { JobExecution } from "./models.js";
+
+// Normalized lifecycle of a Copado job execution, whatever label the org uses
+export const JOB_STATES = ['queued', 'in-progress', 'completed', 'failed', 'cancelled', 'unknown'] as const;
+
+export type JobState = typeof JOB_STATES[number];
+
+// Status labels seen on copado__Status__c (and step results), lowercased with
+// separators collapsed to spaces
+const STATUS_STATES = new Map<string, JobState>([
+  ['completed', 'completed'],
+  ['complete', 'completed'],
+  ['success', 'completed'],
+  ['successful', 'completed'],
+  ['succeeded', 'completed'],
+  ['done', 'completed'],
+  ['failed', 'failed'],
+  ['failure', 'failed'],
+  ['error', 'failed'],
+  ['errors', 'failed'],
+  ['cancelled', 'cancelled'],
+  ['canceled', 'cancelled'],
+  ['aborted', 'cancelled'],
+  ['in progress', 'in-progress'],
+  ['running', 'in-progress'],
+  ['started', 'in-progress'],
+  ['processing', 'in-progress'],
+  ['not started', 'queued'],
+  ['queued', 'queued'],
+  ['pending', 'queued'],
+  ['scheduled', 'queued'],
+  ['waiting', 'queued']
+]);
+
+// Map the free-text copado__Status__c value to a lifecycle state
+export function normalizeJobState(status: string | undefined): JobState {
+  const label = (status ?? '').trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  return STATUS_STATES.get(label) ?? 'unknown';
+}
+
+export function isTerminalState(state: JobState): boolean {
+  return state === 'completed' || state === 'failed' || state === 'cancelled';
+}
+
+// Raw status field, with the plain-named fallback some endpoints use
+export function rawJobStatus(jobExecution: JobExecution): string {
+  return jobExecution.copado__Status__c || jobExecution.status || 'Unknown';
+}
@@ -0,0 +1,87 @@
+// Salesforce metadata types that can be committed through Copado, used to
+// validate explicit change lists before anything is sent to the webhook.
+export const METADATA_TYPES = [
+  'ApexClass',
+  'ApexComponent',
+  'ApexPage',
+  'ApexTestSuite',
+  'ApexTrigger',
+  'AppMenu',
+  'ApprovalProcess',
+  'AssignmentRules',
+  'AuraDefinitionBundle',
+  'AuthProvider',
+  'AutoResponseRules',
+  'BusinessProcess',
+  'CompactLayout',
+  'ConnectedApp',
+  'ContentAsset',
+  'CustomApplication',
+  'CustomField',
+  'CustomLabel',
+  'CustomLabels',
+  'CustomMetadata',
+  'CustomNotificationType',
+  'CustomObject',
+  'CustomObjectTranslation',
+  'CustomPermission',
+  'CustomSite',
+  'CustomTab',
+  'Dashboard',
+  'DashboardFolder',
+  'Document',
+  'DocumentFolder',
+  'DuplicateRule',
+  'EmailFolder',
+  'EmailTemplate',
+  'EscalationRules',
+  'ExternalDataSource',
+  'FieldSet',
+  'FlexiPage',
+  'Flow',
+  'FlowDefinition',
+  'GlobalValueSet',
+  'Group',
+  'HomePageLayout',
+  'Layout',
+  'LightningComponentBundle',
+  'ListView',
+  'MatchingRules',
+  'NamedCredential',
+  'PathAssistant',
+  'PermissionSet',
+  'PermissionSetGroup',
+  'PlatformEventChannel',
+  'Profile',
+  'Queue',
+  'QuickAction',
+  'RecordType',
+  'RemoteSiteSetting',
+  'Report',
+  'ReportFolder',
+  'ReportType',
+  'Role',
+  'SharingReason',
+  'SharingRules',
+  'StandardValueSet',
+  'StaticResource',
+  'Territory2',
+  'Translations',
+  'ValidationRule',
+  'WebLink',
+  'Workflow',
+  'WorkflowAlert',
+  'WorkflowFieldUpdate',
+  'WorkflowRule',
+] as const;
+
+export type MetadataType = (typeof METADATA_TYPES)[number];
+
+const TYPES_BY_LOWER_NAME = new Map<string, MetadataType>(
+  METADATA_TYPES.map(type => [type.toLowerCase(), type])
+);
+
+// Canonical spelling of a metadata type, or undefined if it is not in the catalog
+export function resolveMetadataType(type: string): MetadataType | undefined {
+  return TYPES_BY_LOWER_NAME.get(type.trim().toLowerCase());
+}
@@ -0,0 +1,109 @@
+// Request and response models for the Copado MC webhook actions.
+// Field names mirror what Copado sends and expects, including the
+// Salesforce-style `copado__*__c` fields on job executions.
+
+export type CopadoAction = 'Commit' | 'Promotion' | 'PromotionDeployment' | 'CheckStatusAction';
+
+// Commit actions Copado distinguishes for a metadata component
+export const COMMIT_ACTIONS = ['Add', 'Delete', 'RetrieveOnly'] as const;
+
+export type CommitAction = (typeof COMMIT_ACTIONS)[number];
+
+// Package directory used when a change does not say where it lives
+export const DEFAULT_MODULE = 'force-app/main/default';
+
+// A single metadata change in the compact format the Commit action expects
+export interface CommitChange {
+  a: CommitAction;
+  /** API name of the component */
+  n: string;
+  /** Metadata type, e.g. ApexClass */
+  t: string;
+  /** Module (package directory) the component lives in */
+  m: string;
+}
+
+export interface CommitRequest {
+  userStoryId: string;
+  changes: CommitChange[];
+  message: string;
+}
+
+export interface PromotionRequest {
+  userStoryIds: string[];
+  executeDeployment: boolean;
+  deploymentDryRun: boolean;
+  sourceEnvironmentId: string;
+}
+
+export interface PromotionDeploymentRequest {
+  promotionId: string;
+}
+
+export interface CheckStatusRequest {
+  jobexecutionid: string;
+}
+
+export interface CopadoRequestMap {
+  Commit: CommitRequest;
+  Promotion: PromotionRequest;
+  PromotionDeployment: PromotionDeploymentRequest;
+  CheckStatusAction: CheckStatusRequest;
+}
+
+// The envelope every webhook call is wrapped in
+export interface CopadoEnvelope<A extends CopadoAction> {
+  action: A;
+  key: string;
+  payload: CopadoRequestMap[A];
+}
+
+// copado__JobExecution__c record as returned by the webhooks
+export interface JobExecution {
+  Id?: string;
+  Name?: string;
+  CreatedDate?: string;
+  LastModifiedDate?: string;
+  copado__Status__c?: string;
+  copado__Template__c?: string;
+  copado__Promotion__c?: string;
+  copado__Deployment__c?: string;
+  copado__DataJson__c?: string;
+  copado__ErrorMessage__c?: string;
+  // Plain-named fallbacks returned by some status endpoints
+  status?: string;
+  startTime?: string;
+  endTime?: string;
+  errorMessage?: string;
+  [field: string]: unknown;
+}
+
+export interface CommitResponse {
+  jobExecution?: JobExecution;
+  commitId?: string;
+  message?: string;
+}
+
+export interface PromotionResponse {
+  jobExecution?: JobExecution;
+  deploymentJobExecution?: JobExecution;
+  promotionId?: string;
+  message?: string;
+}
+
+export interface PromotionDeploymentResponse {
+  jobExecution?: JobExecution;
+  message?: string;
+}
+
+export interface CheckStatusResponse {
+  jobExecution: JobExecution;
+  message?: string;
+}
+
+export interface CopadoResponseMap {
+  Commit: CommitResponse;
+  Promotion: PromotionResponse;
+  PromotionDeployment: PromotionDeploymentResponse;
+  CheckStatusAction: CheckStatusResponse;
+}
@@ -0,0 +1,229 @@
+import { type MetadataType, resolveMetadataType } from "./metadataTypes.js";
+import { type CommitAction, type CommitChange, DEFAULT_MODULE } from "./models.js";
+
+// Result of mapping source files or a manifest: the changes that could be derived
+// and a description of every entry that could not.
+export interface SourceMappingResult {
+  changes: CommitChange[];
+  problems: string[];
+}
+
+// Top-level SFDX source directories and the metadata type stored in them
+const DIRECTORY_TYPES = new Map<string, MetadataType>([
+  ['applications', 'CustomApplication'],
+  ['appMenus', 'AppMenu'],
+  ['approvalProcesses', 'ApprovalProcess'],
+  ['assignmentRules', 'AssignmentRules'],
+  ['aura', 'AuraDefinitionBundle'],
+  ['authproviders', 'AuthProvider'],
+  ['autoResponseRules', 'AutoResponseRules'],
+  ['classes', 'ApexClass'],
+  ['components', 'ApexComponent'],
+  ['connectedApps', 'ConnectedApp'],
+  ['contentassets', 'ContentAsset'],
+  ['customMetadata', 'CustomMetadata'],
+  ['customPermissions', 'CustomPermission'],
+  ['dashboards', 'Dashboard'],
+  ['documents', 'Document'],
+  ['duplicateRules', 'DuplicateRule'],
+  ['email', 'EmailTemplate'],
+  ['escalationRules', 'EscalationRules'],
+  ['externalDataSources', 'ExternalDataSource'],
+  ['flexipages', 'FlexiPage'],
+  ['flowDefinitions', 'FlowDefinition'],
+  ['flows', 'Flow'],
+  ['globalValueSets', 'GlobalValueSet'],
+  ['groups', 'Group'],
+  ['homePageLayouts', 'HomePageLayout'],
+  ['labels', 'CustomLabels'],
+  ['layouts', 'Layout'],
+  ['lwc', 'LightningComponentBundle'],
+  ['matchingRules', 'MatchingRules'],
+  ['namedCredentials', 'NamedCredential'],
+  ['notificationtypes', 'CustomNotificationType'],
+  ['objectTranslations', 'CustomObjectTranslation'],
+  ['objects', 'CustomObject'],
+  ['pages', 'ApexPage'],
+  ['pathAssistants', 'PathAssistant'],
+  ['permissionsetgroups', 'PermissionSetGroup'],
+  ['permissionsets', 'PermissionSet'],
+  ['platformEventChannels', 'PlatformEventChannel'],
+  ['profiles', 'Profile'],
+  ['queues', 'Queue'],
+  ['quickActions', 'QuickAction'],
+  ['remoteSiteSettings', 'RemoteSiteSetting'],
+  ['reports', 'Report'],
+  ['reportTypes', 'ReportType'],
+  ['roles', 'Role'],
+  ['sharingRules', 'SharingRules'],
+  ['sites', 'CustomSite'],
+  ['standardValueSets', 'StandardValueSet'],
+  ['staticresources', 'StaticResource'],
+  ['tabs', 'CustomTab'],
+  ['territory2Models', 'Territory2'],
+  ['triggers', 'ApexTrigger'],
+  ['testSuites', 'ApexTestSuite'],
+  ['translations', 'Translations'],
+  ['workflows', 'Workflow']
+]);
+
+// Child directories under objects/<Object>/, named Object.Child in Copado
+const OBJECT_CHILD_TYPES = new Map<string, MetadataType>([
+  ['businessProcesses', 'BusinessProcess'],
+  ['compactLayouts', 'CompactLayout'],
+  ['fieldSets', 'FieldSet'],
+  ['fields', 'CustomField'],
+  ['listViews', 'ListView'],
+  ['recordTypes', 'RecordType'],
+  ['sharingReasons', 'SharingReason'],
+  ['validationRules', 'ValidationRule'],
+  ['webLinks', 'WebLink']
+]);
+
+// Types whose source lives in a folder per component
+export const BUNDLE_TYPES = new Set<MetadataType>(['LightningComponentBundle', 'AuraDefinitionBundle']);
+
+// Types stored in folders, named Folder/Component; the folder has its own type
+const FOLDERED_TYPES: Partial<Record<MetadataType, MetadataType>> = {
+  Dashboard: 'DashboardFolder',
+  Document: 'DocumentFolder',
+  EmailTemplate: 'EmailFolder',
+  Report: 'ReportFolder',
+};
+
+// "Tier__c.field-meta.xml" → "Tier__c", "AccountController.cls" → "AccountController"
+function componentName(fileName: string): string {
+  const withoutMeta = fileName.replace(/-meta\.xml$/, '');
+  const extension = withoutMeta.lastIndexOf('.');
+  return extension > 0 ? withoutMeta.slice(0, extension) : withoutMeta;
+}
+
+// Split a path into its package directory (module) and the path below it
+function splitModule(segments: string[]): { module: string, rest: string[] } | undefined {
+  // Standard layout: <package>/main/default/<type dir>/...
+  for (let i = 0; i + 1 < segments.length; i++) {
+    if (segments[i] === 'main' && segments[i + 1] === 'default') {
+      return {
+        module: segments.slice(0, i + 2).join('/'),
+        rest: segments.slice(i + 2)
+      };
+    }
+  }
+
+  // Flat layout: <package>/<type dir>/...
+  const typeDirIndex = segments.findIndex(segment => DIRECTORY_TYPES.has(segment));
+  if (typeDirIndex < 0) {
+    return undefined;
+  }
+  return {
+    module: typeDirIndex > 0 ? segments.slice(0, typeDirIndex).join('/') : DEFAULT_MODULE,
+    rest: segments.slice(typeDirIndex)
+  };
+}
+
+// Map one SFDX source file (or bundle directory) to a Copado change
+export function changeFromSourcePath(path: string, action: CommitAction = 'Add'): CommitChange | undefined {
+  const segments = path.trim().replace(/\\/g, '/').replace(/^\.\//, '').split('/').filter(Boolean);
+  const split = splitModule(segments);
+  if (!split || split.rest.length < 2) {
+    return undefined;
+  }
+
+  const { module, rest } = split;
+  const [directory, ...below] = rest;
+  const type = DIRECTORY_TYPES.get(directory);
+  if (!type) {
+    return undefined;
+  }
+
+  const change = (t: string, n: string): CommitChange => ({ a: action, n, t, m: module });
+
+  if (type === 'CustomObject') {
+    const [objectName, childDirectory, childFile] = below;
+    // objects/Account/fields/Tier__c.field-meta.xml → CustomField Account.Tier__c
+    if (childDirectory && childFile) {
+      const childType = OBJECT_CHILD_TYPES.get(childDirectory);
+      return childType ? change(childType, `${objectName}.${componentName(childFile)}`) : undefined;
+    }
+    return change(type, below.length === 1 ? componentName(objectName) : objectName);
+  }
+
+  if (BUNDLE_TYPES.has(type)) {
+    // lwc/accountCard/accountCard.js → LightningComponentBundle accountCard
+    return change(type, below[0]);
+  }
+
+  const folderType = FOLDERED_TYPES[type];
+  if (folderType) {
+    // reports/Sales/Pipeline.report-meta.xml → Report Sales/Pipeline
+    if (below.length === 1) {
+      return change(folderType, componentName(below[0]));
+    }
+    return change(type, [...below.slice(0, -1), componentName(below[below.length - 1])].join('/'));
+  }
+
+  // staticresources/Logo/... (expanded resource) or any single-file type
+  return change(type, componentName(below[0]));
+}
+
+export function changesFromSourcePaths(paths: string[], action: CommitAction = 'Add'): SourceMappingResult {
+  const changes: CommitChange[] = [];
+  const problems: string[] = [];
+
+  for (const path of paths) {
+    const change = changeFromSourcePath(path, action);
+    if (change) {
+      changes.push(change);
+    } else {
+      problems.push(`Could not map source path "${path}" to a metadata type`);
+    }
+  }
+
+  return { changes: dedupeChanges(changes), problems };
+}
+
+// Map a package.xml (or destructiveChanges.xml) manifest to Copado changes
+export function changesFromPackageXml(xml: string, action: CommitAction = 'Add'): SourceMappingResult {
+  const changes: CommitChange[] = [];
+  const problems: string[] = [];
+
+  const typeBlocks = [...xml.matchAll(/<types>([\s\S]*?)<\/types>/g)];
+  if (typeBlocks.length === 0) {
+    problems.push('No <types> entries found in package.xml');
+  }
+
+  for (const [, block] of typeBlocks) {
+    const name = /<name>\s*([^<]+?)\s*<\/name>/.exec(block)?.[1];
+    if (!name) {
+      problems.push('A <types> entry has no <name>');
+      continue;
+    }
+    const type = resolveMetadataType(name);
+    if (!type) {
+      problems.push(`Unknown metadata type "${name}" in package.xml`);
+      continue;
+    }
+    const members = [...block.matchAll(/<members>\s*([^<]+?)\s*<\/members>/g)].map(match => match[1]);
+    if (members.length === 0) {
+      problems.push(`The <types> entry for ${type} has no <members>`);
+    }
+    for (const member of members) {
+      if (member.includes('*')) {
+        problems.push(`Wildcard member "${member}" for ${type} cannot be committed; list the components explicitly`);
+        continue;
+      }
+      changes.push({ a: action, n: member, t: type, m: DEFAULT_MODULE });
+    }
+  }
+
+  return { changes: dedupeChanges(changes), problems };
+}
+
+// Companion files (Foo.cls and Foo.cls-meta.xml, bundle files) map to the same component
+export function dedupeChanges(changes: CommitChange[]): CommitChange[] {
+  const byKey = new Map<string, CommitChange>();
+  for (const change of changes) {
+    byKey.set(`${change.t}:${change.n}:${change.m}`, change);
+  }
+  return [...byKey.values()];
+}
@@ -1,208 +1,367 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from 'zod';
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { commitTool, commitSchema } from "./tools/CommitTool.js";
-import { promoteTool, promoteSchema } from "./tools/PromoteTool.js";
-import { deployPromotionTool, deployPromotionSchema } from "./tools/DeployPromotionTool.js";
-import { checkJobStatusTool, checkJobStatusSchema } from "./tools/CheckJobStatusTool.js";
+import { CopadoSession } from "./session/CopadoSession.js";
+import { type CopadoSharedStorage, sharedStorageSql, tenantName } from "./storage/SharedStorage.js";
+import { Logger } from "./logging/Logger.js";
+import { CALLBACK_PATH_PREFIX, CALLBACK_SECRET_HEADER, jobExecutionFromCallback, verifyCallbackSecret } from "./jobs/callbacks.js";
+import { rawJobStatus } from "./copado/jobStatus.js";
+import type { JobExecution } from "./copado/models.js";
+import { authenticate, type Identity, parseTokenStore, type TokenStore, unauthorized } from "./auth/bearerTokens.js";
+import { isRole } from "./auth/roles.js";
 
 interface Env {
+    MCP_OBJECT: DurableObjectNamespace<MyMCP>;
+    // Environments, history, idempotency results and releases shared by all sessions of a tenant
+    COPADO_SHARED_STORAGE: DurableObjectNamespace<CopadoSharedStorage>;
     COPADO_API_KEY: string;
+    // Optional JSON object of default environments, e.g.
+    // {"prod": {"id": "a0c8c00000LpAxFAAV", "protected": true}, "uat": {"id": "a0c8c00000LpAxGAAV", "promotesTo": "prod"}}
+    COPADO_ENVIRONMENTS?: string;
+    // JSON object mapping SHA-256 hashes of bearer tokens to identities, e.g.
+    // {"<sha256 hex>": {"subject": "alice@example.com", "role": "developer"}}
+    MCP_AUTH_TOKENS?: string;
+    // Set to "true" to serve the MCP routes without authentication (local development only)
+    MCP_ALLOW_ANONYMOUS?: string;
+    // Role of anonymous sessions: "read-only" (default), "developer" or "release-manager"
+    MCP_ANONYMOUS_ROLE?: string;
+    // Shared secret Copado sends in the X-Copado-Callback-Secret header; enables /copado/callback
+    COPADO_CALLBACK_SECRET?: string;
+    // "true" or a JSON object of MockBackendConfig settings to answer every Copado call from
+    // a simulated backend instead of app-api.copado.com, e.g. {"runningMs": 5000, "failures": {"deployments": true}}
+    COPADO_MOCK?: string;
+    // Optional JSON object of named Copado endpoint profiles, e.g.
+    // {"default": {"baseUrl": "https://eu-app-api.copado.com"}, "sandbox": {"baseUrl": "https://copado-proxy.example.com", "headers": {"X-Gateway": "sandbox"}}}
+    COPADO_ENDPOINTS?: string;
+    // Profile used when the connection does not choose one; set per Wrangler environment (default: "default")
+    COPADO_ENDPOINT_PROFILE?: string;
 }
 
 // Optional: Define configuration schema to require configuration at connection time
 export const configSchema = z.object({
-    debug: z.boolean().default(false).describe("Enable debug logging")
+    debug: z.boolean().default(false).describe("Enable debug logging"),
+    apiKey: z.string().optional().describe("Copado webhook key used for every tool call in this session"),
+    endpointProfile: z.string().optional().describe("Name of a configured Copado endpoint profile to use in this session")
 });
 
+// Values captured when a client opens a session. McpAgent stores them in the
+// session's Durable Object, so keys never leak between sessions.
+export interface SessionProps extends Record<string, unknown> {
+    copadoApiKey?: string;
+    debug?: boolean;
+    /** Endpoint profile chosen when connecting; one of the profiles in COPADO_ENDPOINTS */
+    endpointProfile?: string;
+    /** Authenticated caller; bound to the session when it is initialized */
+    identity?: Identity;
+    /** Origin the session was opened on, used to build its callback URL */
+    origin?: string;
+}
+
+// History entry recorded for statuses Copado pushes to the callback route
+const CALLBACK_OPERATION = "copado_callback";
+
+// Storage key of the resource URIs the client subscribed to
+const SUBSCRIPTIONS_KEY = "resourceSubscriptions";
+
+// Header a client can send on connect to bind its own webhook key to the session
+const SESSION_API_KEY_HEADER = "X-Copado-Api-Key";
+
+// Header a client can send on connect to choose a configured endpoint profile
+const SESSION_ENDPOINT_PROFILE_HEADER = "X-Copado-Endpoint-Profile";
+
+// Let browser-based clients send credentials on the MCP routes
+const corsOptions = {
+    headers: `Content-Type, mcp-session-id, Authorization, ${SESSION_API_KEY_HEADER}, ${SESSION_ENDPOINT_PROFILE_HEADER}`,
+};
+
+// Read the connection-time config from the request: the API key header, plus an
+// optional base64-encoded JSON `config` query parameter matching configSchema.
+function sessionPropsFromRequest(request: Request, url: URL): SessionProps {
+    const props: SessionProps = { origin: url.origin };
+
+    const encodedConfig = url.searchParams.get("config");
+    if (encodedConfig) {
+        try {
+            const parsed = configSchema.safeParse(JSON.parse(atob(encodedConfig)));
+            if (parsed.success) {
+                props.copadoApiKey = parsed.data.apiKey;
+                props.debug = parsed.data.debug;
+                props.endpointProfile = parsed.data.endpointProfile;
+            }
+        } catch {
+            // Ignore malformed config and fall back to the Worker defaults
+        }
+    }
+
+    const headerKey = request.headers.get(SESSION_API_KEY_HEADER);
+    if (headerKey) {
+        props.copadoApiKey = headerKey;
+    }
+
+    const headerProfile = request.headers.get(SESSION_ENDPOINT_PROFILE_HEADER);
+    if (headerProfile) {
+        props.endpointProfile = headerProfile;
+    }
+
+    return props;
+}
+
+// Durable Object classes must be exported from the Worker entry point
+export { CopadoSharedStorage } from "./storage/SharedStorage.js";
+
 // Create the Copado MCP Server
-export class MyMCP extends McpAgent {
+export class MyMCP extends McpAgent<Env, unknown, SessionProps> {
     server = new McpServer({
         name: "copado-mcp",
         version: "1.0.0",
     });
 
-    async init() {
-        // Register tools using the correct MCP SDK format
-        this.server.tool(
-                commitTool.name,
-                commitSchema,
-                commitTool.execute
-        );
+    private session!: CopadoSession;
+
+    // Stores, tools and resources shared with the local stdio server; also needed by
+    // alarms and callbacks that wake the object without a request
+    private createSession() {
+        // Sessions using the same webhook key share one storage object
+        const tenant = tenantName(this.props?.copadoApiKey || this.env.COPADO_API_KEY || undefined);
+        const shared = sharedStorageSql(this.env.COPADO_SHARED_STORAGE, tenant);
+        this.session = new CopadoSession(this.sql.bind(this), shared, {
+            sessionApiKey: this.props?.copadoApiKey,
+            defaultApiKey: this.env.COPADO_API_KEY,
+            environments: this.env.COPADO_ENVIRONMENTS,
+            mock: this.env.COPADO_MOCK,
+            endpoints: this.env.COPADO_ENDPOINTS,
+            endpointProfile: this.props?.endpointProfile || this.env.COPADO_ENDPOINT_PROFILE || undefined,
+            debug: this.props?.debug,
+            identity: this.props?.identity,
+            anonymousRole: isRole(this.env.MCP_ANONYMOUS_ROLE) ? this.env.MCP_ANONYMOUS_ROLE : undefined,
+        }, (scheduledTime) => this.scheduleAlarm(scheduledTime));
+    }
 
-        this.server.tool(
-                promoteTool.name,
-                promoteSchema,
-                promoteTool.execute
-        );
+    // Durable Objects have a single alarm; only move it earlier, never later
+    private async scheduleAlarm(scheduledTime: number) {
+        const current = await this.ctx.storage.getAlarm();
+        if (current === null || current <= Date.now() || scheduledTime < current) {
+            await this.ctx.storage.setAlarm(scheduledTime);
+        }
+    }
 
-        this.server.tool(
-                deployPromotionTool.name,
-                deployPromotionSchema,
-                deployPromotionTool.execute
-        );
+    // Alarms and callbacks can wake the object without a session request
+    private async ensureSession() {
+        if (!this.session) {
+            this.props ??= (await this.ctx.storage.get<SessionProps>("props")) ?? {};
+            this.createSession();
+        }
+    }
 
-        this.server.tool(
-                checkJobStatusTool.name,
-                checkJobStatusSchema,
-                checkJobStatusTool.execute
-        );
+    // Subject of the caller that opened the session: null for an anonymous session,
+    // undefined when no session was opened in this object
+    async sessionSubject(): Promise<string | null | undefined> {
+        const props = await this.ctx.storage.get<SessionProps>("props");
+        return props ? (props.identity?.subject ?? null) : undefined;
+    }
 
-        // Add documentation resource
+    async alarm() {
+        await this.ensureSession();
+        await this.session.pollDue();
+    }
+
+    // Called by the Worker's callback route with a job execution Copado pushed to us.
+    // Updates a running wait_for_job watch and the history, then tells subscribers.
+    async handleCopadoCallback(jobExecution: JobExecution) {
+        if (!(await this.ctx.storage.get("props"))) {
+            return { session: false as const };
+        }
+        await this.ensureSession();
+
+        const jobExecutionId = jobExecution.Id!;
+        const status = rawJobStatus(jobExecution);
+        const watch = await this.session.jobs.applyStatus(jobExecution);
+        await this.session.history.recordToolResult(CALLBACK_OPERATION, {
+            jobExecutionId,
+            status,
+            errorMessage: jobExecution.copado__ErrorMessage__c || jobExecution.errorMessage || undefined,
+        });
+        await this.notifyResourceUpdated(`copado://jobs/${jobExecutionId}`);
+
+        return { session: true as const, jobExecutionId, status, watched: watch !== undefined };
+    }
+
+    // Subscriptions survive hibernation in Durable Object storage
+    private async resourceSubscriptions(): Promise<Set<string>> {
+        return new Set(await this.ctx.storage.get<string[]>(SUBSCRIPTIONS_KEY) ?? []);
+    }
+
+    private async notifyResourceUpdated(uri: string) {
+        if (!(await this.resourceSubscriptions()).has(uri)) {
+            return;
+        }
+        try {
+            await this.server.server.sendResourceUpdated({ uri });
+        } catch (error) {
+            this.session.logger.error("Failed to notify resource subscribers", { uri, error });
+        }
+    }
+
+    async init() {
+        this.createSession();
+        await this.session.initialize();
+        this.session.register(this.server);
+
+        // Where Copado should POST job updates for this session
         this.server.resource(
-        "copado-webhooks-docs",
-        "copado://webhooks/documentation",
+        "copado-callback",
+        "copado://callback",
                 async (uri) => ({
                     contents: [{
                         uri: uri.href,
-                        mimeType: "text/markdown",
-                        text: `# Copado MCP Server Documentation
-
-                        ## Complete Copado Workflow Tools
-
-                        ### 1. Commit Changes Tool
-                        Commits changes to a Copado User Story with intelligent parsing of change descriptions.
-
-                        **Usage:**
-                        \`\`\`
-                        I modified the AccountController apex class. Commit those changes to User Story a1u7Q000000LkSVQA0
-                        \`\`\`
-
-                        **Parameters:**
-                        - **userStoryId**: The Salesforce ID of the User Story
-                        - **changesDescription**: Natural language description of changes made
-                        - **commitMessage**: Optional commit message (auto-generated if not provided)
-                        - **apiKey**: Your Copado webhook key (optional if COPADO_API_KEY env var is set)
-
-                        ### 2. Promote User Story Tool
-                        Creates a promotion for user stories. Optionally executes deployment automatically.
-
-                        **Usage:**
-                        \`\`\`
-                        Promote user story a1u7Q000000LkSVQA0
-                        Promote and deploy user story a1u7Q000000LkSVQA0
-                        Promote and validate user story a1u7Q000000LkSVQA0
-                        \`\`\`
-
-                        **Parameters:**
-                        - **userStoryIds**: User Story IDs to include (comma-separated or single ID)
-                        - **executeDeployment**: Auto-deploy after promotion (default: false)
-                        - **deploymentDryRun**: Run validation-only deployment (default: false)
-                        - **apiKey**: Your Copado webhook key (optional if COPADO_API_KEY env var is set)
-
-                        ### 3. Deploy Promotion Tool
-                        Triggers a deployment of an existing promotion.
-
-                        **Usage:**
-                        \`\`\`
-                        Deploy promotion a0q5p00001GTeo9AAD
-                        \`\`\`
-
-                        **Parameters:**
-                        - **promotionId**: The Salesforce ID of the promotion record
-                        - **apiKey**: Your Copado webhook key (optional if COPADO_API_KEY env var is set)
-
-                        ### 4. Check Job Status Tool
-                        Checks the status of a Copado job execution.
-
-                        **Usage:**
-                        \`\`\`
-                        Check status of job a0sKa00000WBZN9IAP
-                        \`\`\`
-
-                        **Parameters:**
-                        - **jobExecutionId**: The Job Execution ID to check status for
-                        - **apiKey**: Your Copado webhook key (optional if COPADO_API_KEY env var is set)
-
-                        ## Complete Workflow Examples
-
-                        ### Full Development Cycle:
-                        \`\`\`
-                        I modified the AccountController class. Commit to user story a1u123, promote it, deploy to production, and check status
-                        \`\`\`
-
-                        **AI Execution:**
-                        1. commit_changes → Commits changes to user story
-                        2. promote_user_story → Creates promotion 
-                        3. promote_user_story → Auto-deploys (executeDeployment: true)
-                        4. check_job_status → Monitors deployment progress
-
-                        ### Validation Workflow:
-                        \`\`\`
-                        Commit my apex changes to user story a1u123 and promote for validation
-                        \`\`\`
-
-                        **AI Execution:**
-                        1. commit_changes → Commits changes
-                        2. promote_user_story → Creates promotion and runs validation (deploymentDryRun: true)
-                        3. check_job_status → Monitors validation
-
-                        ### Staged Deployment:
-                        \`\`\`
-                        Commit changes to user story a1u123 and create promotion for later
-                        \`\`\`
-                        *Later...*
-                        \`\`\`
-                        Deploy the promotion
-                        \`\`\`
-
-                        **AI Execution:**
-                        1. commit_changes → Commits changes
-                        2. promote_user_story → Creates promotion only (executeDeployment: false)
-                        3. deploy_promotion → Deploys when ready
-
-                        ## AI Intelligence Features
-
-                        - **Smart Change Parsing**: Converts natural language to Copado metadata format
-                        - **Intent Detection**: Automatically sets deployment flags based on user intent
-                        - **Tool Chaining**: Seamlessly chains operations in logical workflow order
-                        - **Context Awareness**: Uses previous responses to chain subsequent tools
-                        - **Flexible Input**: Handles various formats for user story IDs and descriptions
-
-                        ## Supported Metadata Types
-
-                        - ApexClass, ApexTrigger, LightningComponentBundle (LWC)
-                        - Flow, CustomObject, CustomField, Layout
-                        - PermissionSet, Profile, CustomLabel, ValidationRule
-                        - EmailTemplate, Report, Dashboard, and more...
-
-                        ## API Endpoints
-                        - Commit: \`https://app-api.copado.com/json/v1/webhook/mcwebhook/commit\`
-                        - Promote: \`https://app-api.copado.com/json/v1/webhook/mcwebhook/promotion\`
-                        - Deploy: \`https://app-api.copado.com/json/v1/webhook/mcwebhook/promotiondeployment\`
-
-                        ## Notes
-                        - All tools support AI context reliance for seamless chaining
-                        - Webhook key must have appropriate permissions for each operation
-                        - Tools automatically detect user intent for deployment vs. validation
-                        - Monitor progress through Copado org or status check tools
-                        `
+                        mimeType: "application/json",
+                        text: JSON.stringify({
+                            enabled: Boolean(this.env.COPADO_CALLBACK_SECRET),
+                            url: `${this.props?.origin ?? ""}${CALLBACK_PATH_PREFIX}${this.ctx.id.toString()}`,
+                            secretHeader: CALLBACK_SECRET_HEADER,
+                        }, null, 2)
                     }]
                 })
         );
+
+        // Clients subscribe to copado://jobs/{id} to hear about callbacks for that job
+        this.server.server.registerCapabilities({ resources: { subscribe: true } });
+        this.server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+            const subscriptions = await this.resourceSubscriptions();
+            subscriptions.add(request.params.uri);
+            await this.ctx.storage.put(SUBSCRIPTIONS_KEY, [...subscriptions]);
+            return {};
+        });
+        this.server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+            const subscriptions = await this.resourceSubscriptions();
+            subscriptions.delete(request.params.uri);
+            await this.ctx.storage.put(SUBSCRIPTIONS_KEY, [...subscriptions]);
+            return {};
+        });
+    }
+}
+
+// Authenticate a request to the MCP routes. Returns the caller's identity, or the
+// response to send instead when the request must not reach the server.
+async function authenticateRequest(request: Request, env: Env): Promise<{ identity?: Identity } | Response> {
+    // CORS preflights never carry credentials
+    if (request.method === "OPTIONS") {
+        return {};
+    }
+    if (env.MCP_ALLOW_ANONYMOUS === "true") {
+        if (env.MCP_ANONYMOUS_ROLE && !isRole(env.MCP_ANONYMOUS_ROLE)) {
+            workerLogger.error("Invalid MCP_ANONYMOUS_ROLE", { role: env.MCP_ANONYMOUS_ROLE });
+            return new Response("Server authentication is misconfigured", { status: 500 });
+        }
+        return {};
+    }
+
+    let tokens: TokenStore;
+    try {
+        tokens = parseTokenStore(env.MCP_AUTH_TOKENS);
+    } catch (error) {
+        workerLogger.error("Invalid MCP_AUTH_TOKENS", { error });
+        return new Response("Server authentication is misconfigured", { status: 500 });
+    }
+    if (tokens.size === 0) {
+        return unauthorized("No MCP_AUTH_TOKENS are configured on this server");
+    }
+
+    const identity = await authenticate(request, tokens);
+    return identity ? { identity } : unauthorized("Missing or invalid bearer token");
+}
+
+// Durable Object name of the session a request continues, if it names one. Matches
+// the names McpAgent.serve and serveSSE give their session objects.
+function existingSessionName(request: Request, url: URL, isSse: boolean): string | undefined {
+    if (isSse) {
+        const sessionId = url.searchParams.get("sessionId");
+        return sessionId ? `sse:${sessionId}` : undefined;
+    }
+    const sessionId = request.headers.get("mcp-session-id");
+    return sessionId ? `streamable-http:${sessionId}` : undefined;
+}
+
+// Requests handled by the Worker itself, outside any session
+const workerLogger = new Logger({ fields: { component: "worker" } });
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// POST /copado/callback/{token}: the token is the session's Durable Object ID
+async function handleCallback(request: Request, env: Env, token: string): Promise<Response> {
+    if (request.method !== "POST") {
+        return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+    if (!env.COPADO_CALLBACK_SECRET) {
+        return jsonResponse({ error: "Callbacks are not enabled" }, 404);
+    }
+    if (!(await verifyCallbackSecret(request.headers.get(CALLBACK_SECRET_HEADER), env.COPADO_CALLBACK_SECRET))) {
+        workerLogger.warn("Rejected Copado callback with an invalid secret");
+        return jsonResponse({ error: "Invalid callback secret" }, 401);
     }
+
+    let id: DurableObjectId;
+    try {
+        id = env.MCP_OBJECT.idFromString(token);
+    } catch {
+        return jsonResponse({ error: "Unknown callback token" }, 404);
+    }
+
+    let jobExecution: JobExecution;
+    try {
+        jobExecution = jobExecutionFromCallback(await request.json());
+    } catch (error) {
+        return jsonResponse({ error: error instanceof Error ? error.message : "Invalid callback body" }, 400);
+    }
+
+    const result = await env.MCP_OBJECT.get(id).handleCopadoCallback(jobExecution);
+    workerLogger.info("Copado callback", { jobExecutionId: jobExecution.Id, matched: result.session });
+    if (!result.session) {
+        return jsonResponse({ error: "Unknown callback token" }, 404);
+    }
+    return jsonResponse(result);
 }
 
 export default {
-    fetch(request: Request, env: Env, ctx: ExecutionContext) {
+    async fetch(request: Request, env: Env, ctx: ExecutionContext) {
         const url = new URL(request.url);
-        
-        // Set global access to the API key for tools
-        (globalThis as any).COPADO_API_KEY = env.COPADO_API_KEY;
 
-        if (url.pathname === "/sse" || url.pathname === "/sse/message") {
-            return MyMCP.serveSSE("/sse").fetch(request, env, ctx);
+        // Checked with the shared callback secret instead of a bearer token
+        if (url.pathname.startsWith(CALLBACK_PATH_PREFIX)) {
+            return handleCallback(request, env, url.pathname.slice(CALLBACK_PATH_PREFIX.length));
         }
 
-        if (url.pathname === "/mcp") {
-            return MyMCP.serve("/mcp").fetch(request, env, ctx);
+        const isSse = url.pathname === "/sse" || url.pathname === "/sse/message";
+
+        if (!isSse && url.pathname !== "/mcp") {
+            return new Response("Not found", { status: 404 });
         }
 
-        return new Response("Not found", { status: 404 });
-        
-    },
-};
+        const auth = await authenticateRequest(request, env);
+        if (auth instanceof Response) {
+            return auth;
+        }
 
+        // A session ID is not a credential: only the caller who opened the session may use it
+        const sessionName = existingSessionName(request, url, isSse);
+        if (sessionName && request.method !== "OPTIONS") {
+            const subject = await env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(sessionName)).sessionSubject();
+            if (subject !== undefined && subject !== (auth.identity?.subject ?? null)) {
+                workerLogger.warn("Rejected request for a session opened by another caller", { subject: auth.identity?.subject });
+                return jsonResponse({ error: "This session belongs to another caller" }, 403);
+            }
+        }
 
+        // Session props are persisted by McpAgent when the session is initialized
+        ctx.props = { ...sessionPropsFromRequest(request, url), identity: auth.identity };
 
+        if (isSse) {
+            return MyMCP.serveSSE("/sse", { corsOptions }).fetch(request, env, ctx);
+        }
+        return MyMCP.serve("/mcp", { corsOptions }).fetch(request, env, ctx);
+    },
+};
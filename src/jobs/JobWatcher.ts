@@ -0,0 +1,291 @@
+import type { CopadoClient } from "../copado/CopadoClient.js";
+import { CopadoError } from "../copado/errors.js";
+import { isTerminalState, type JobState, normalizeJobState, rawJobStatus } from "../copado/jobStatus.js";
+import type { JobExecution } from "../copado/models.js";
+import type { Logger } from "../logging/Logger.js";
+import type { SqlTag } from "../storage/sql.js";
+
+export interface StatusChange {
+  status: string;
+  state: JobState;
+  at: string;
+}
+
+export interface JobWaitResult {
+  jobExecutionId: string;
+  status: string;
+  state: JobState;
+  finished: boolean;
+  timedOut: boolean;
+  errorMessage?: string;
+  statusChanges: StatusChange[];
+  /** Why polling stopped before the job finished, e.g. a rejected webhook key */
+  pollError?: PollError;
+  /**
+   * When the watch ended with no wait_for_job call attached, e.g. after the session
+   * was evicted from memory mid-wait; no notification was sent for it
+   */
+  endedUnattendedAt?: string;
+}
+
+export interface PollError {
+  kind: string;
+  message: string;
+}
+
+export interface WatchOptions {
+  client: CopadoClient;
+  pollIntervalMs: number;
+  maxWaitMs: number;
+  /** Called on every status change while the caller is still waiting */
+  onStatusChange?: (change: StatusChange, result: JobWaitResult) => void | Promise<void>;
+}
+
+interface WatchRow {
+  job_execution_id: string;
+  status: string;
+  state: JobState;
+  finished: number;
+  timed_out: number;
+  error_message: string | null;
+  status_changes: string;
+  poll_error: string | null;
+  unattended_end_at: string | null;
+  poll_interval_ms: number;
+  deadline: number;
+  next_poll_at: number;
+}
+
+interface Waiter {
+  resolve: (result: JobWaitResult) => void;
+  onStatusChange?: WatchOptions['onStatusChange'];
+}
+
+function toResult(row: WatchRow): JobWaitResult {
+  return {
+    jobExecutionId: row.job_execution_id,
+    status: row.status,
+    state: row.state,
+    finished: row.finished === 1,
+    timedOut: row.timed_out === 1,
+    errorMessage: row.error_message ?? undefined,
+    statusChanges: JSON.parse(row.status_changes),
+    pollError: row.poll_error ? JSON.parse(row.poll_error) : undefined,
+    endedUnattendedAt: row.unattended_end_at ?? undefined,
+  };
+}
+
+// Polls CheckStatusAction for watched job executions. Watches live in SQLite and
+// polling is driven by Durable Object alarms, so a long deployment is tracked
+// across many short alarm invocations rather than one request-bound loop.
+// Waiters only live in memory: once the isolate is evicted, polling carries on
+// but the end of the watch is marked as unattended instead of being delivered.
+export class JobWatcher {
+  private readonly waiters = new Map<string, Set<Waiter>>();
+  // Clients for watches started in this isolate; alarms after eviction fall back
+  // to the session's default credentials.
+  private readonly clients = new Map<string, CopadoClient>();
+
+  constructor(
+    private readonly sql: SqlTag,
+    private readonly setAlarm: (scheduledTime: number) => Promise<void>,
+    private readonly logger: Logger
+  ) {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS copado_job_watches (
+        job_execution_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        state TEXT NOT NULL,
+        finished INTEGER NOT NULL DEFAULT 0,
+        timed_out INTEGER NOT NULL DEFAULT 0,
+        error_message TEXT,
+        status_changes TEXT NOT NULL,
+        poll_interval_ms INTEGER NOT NULL,
+        deadline INTEGER NOT NULL,
+        next_poll_at INTEGER NOT NULL
+      )
+    `;
+    // Watches created before poll errors were kept apart from the job's outcome lack the column
+    const columns = this.sql<{ name: string }>`PRAGMA table_info(copado_job_watches)`;
+    if (!columns.some(column => column.name === 'poll_error')) {
+      this.sql`ALTER TABLE copado_job_watches ADD COLUMN poll_error TEXT`;
+    }
+    if (!columns.some(column => column.name === 'unattended_end_at')) {
+      this.sql`ALTER TABLE copado_job_watches ADD COLUMN unattended_end_at TEXT`;
+    }
+  }
+
+  get(jobExecutionId: string): JobWaitResult | undefined {
+    const [row] = this.sql<WatchRow>`
+      SELECT * FROM copado_job_watches WHERE job_execution_id = ${jobExecutionId}
+    `;
+    return row ? toResult(row) : undefined;
+  }
+
+  // Start (or join) a watch and resolve once the job finishes, maxWaitMs elapses or
+  // a poll fails. A watch stopped by a poll error is restarted by the next wait.
+  async wait(jobExecutionId: string, options: WatchOptions): Promise<JobWaitResult> {
+    const existing = this.get(jobExecutionId);
+    // Only a final status is cached; older watches ended by a poll error are polled again
+    if (existing?.finished && isTerminalState(existing.state)) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const deadline = now + options.maxWaitMs;
+    if (existing) {
+      // Join the running watch, extending it if this caller waits longer
+      this.sql`
+        UPDATE copado_job_watches
+        SET deadline = MAX(deadline, ${deadline}), timed_out = 0, finished = 0, poll_error = NULL, unattended_end_at = NULL,
+            poll_interval_ms = ${options.pollIntervalMs}, next_poll_at = ${now}
+        WHERE job_execution_id = ${jobExecutionId}
+      `;
+    } else {
+      this.sql`
+        INSERT INTO copado_job_watches
+          (job_execution_id, status, state, status_changes, poll_interval_ms, deadline, next_poll_at)
+        VALUES (${jobExecutionId}, ${'Unknown'}, ${'unknown'}, ${'[]'}, ${options.pollIntervalMs}, ${deadline}, ${now})
+      `;
+    }
+    this.clients.set(jobExecutionId, options.client);
+
+    const result = new Promise<JobWaitResult>(resolve => {
+      const waiters = this.waiters.get(jobExecutionId) ?? new Set<Waiter>();
+      waiters.add({ resolve, onStatusChange: options.onStatusChange });
+      this.waiters.set(jobExecutionId, waiters);
+    });
+
+    await this.scheduleNextPoll();
+    return result;
+  }
+
+  // Alarm handler: poll every watch that is due, then schedule the next alarm.
+  // Returns the watches that ended without a waiter to tell.
+  async pollDue(defaultClient: () => CopadoClient): Promise<JobWaitResult[]> {
+    const now = Date.now();
+    const due = this.sql<WatchRow>`
+      SELECT * FROM copado_job_watches
+      WHERE finished = 0 AND timed_out = 0 AND poll_error IS NULL AND next_poll_at <= ${now}
+    `;
+
+    const unattended: JobWaitResult[] = [];
+    for (const row of due) {
+      const result = await this.pollOne(row, defaultClient);
+      if (result.endedUnattendedAt) {
+        unattended.push(result);
+      }
+    }
+
+    await this.scheduleNextPoll();
+    return unattended;
+  }
+
+  // Apply a status pushed to us (e.g. by a Copado callback) to a running watch.
+  // Returns the updated watch, or undefined when the job is not being watched.
+  async applyStatus(jobExecution: JobExecution): Promise<JobWaitResult | undefined> {
+    const [row] = this.sql<WatchRow>`
+      SELECT * FROM copado_job_watches WHERE job_execution_id = ${jobExecution.Id ?? ''} AND finished = 0
+    `;
+    if (!row) {
+      return undefined;
+    }
+
+    const status = rawJobStatus(jobExecution);
+    const state = normalizeJobState(status);
+    const errorMessage = jobExecution.copado__ErrorMessage__c || jobExecution.errorMessage || undefined;
+    const result = await this.update(row, status, state, errorMessage, isTerminalState(state), undefined);
+    await this.scheduleNextPoll();
+    return result;
+  }
+
+  private async pollOne(row: WatchRow, defaultClient: () => CopadoClient): Promise<JobWaitResult> {
+    const jobExecutionId = row.job_execution_id;
+    let status = row.status;
+    let state = row.state;
+    let errorMessage = row.error_message ?? undefined;
+    let finished = false;
+    let pollError: PollError | undefined;
+
+    try {
+      const client = this.clients.get(jobExecutionId) ?? defaultClient();
+      const { jobExecution } = await client.checkStatus(jobExecutionId);
+      status = rawJobStatus(jobExecution);
+      state = normalizeJobState(status);
+      errorMessage = jobExecution.copado__ErrorMessage__c || jobExecution.errorMessage || undefined;
+      finished = isTerminalState(state);
+    } catch (error) {
+      // Transient failures are retried on the next poll; anything else stops polling
+      // until the next wait, but says nothing about the job itself
+      if (!(error instanceof CopadoError && error.retryable)) {
+        pollError = {
+          kind: error instanceof CopadoError ? error.kind : 'unknown',
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    return this.update(row, status, state, errorMessage, finished, pollError);
+  }
+
+  // Store the latest status, notify waiters of a change and resolve them once done
+  private async update(
+    row: WatchRow,
+    status: string,
+    state: JobState,
+    errorMessage: string | undefined,
+    finished: boolean,
+    pollError: PollError | undefined
+  ): Promise<JobWaitResult> {
+    const jobExecutionId = row.job_execution_id;
+    const changes: StatusChange[] = JSON.parse(row.status_changes);
+    const changed = changes.length === 0 || changes[changes.length - 1].status !== status;
+    if (changed) {
+      changes.push({ status, state, at: new Date().toISOString() });
+    }
+
+    const timedOut = !finished && !pollError && Date.now() >= row.deadline;
+    const ended = finished || timedOut || pollError !== undefined;
+    const waiters = this.waiters.get(jobExecutionId) ?? new Set<Waiter>();
+    const unattendedEndAt = ended && waiters.size === 0 ? new Date().toISOString() : null;
+    this.sql`
+      UPDATE copado_job_watches
+      SET status = ${status}, state = ${state}, error_message = ${errorMessage ?? null},
+          finished = ${finished ? 1 : 0}, timed_out = ${timedOut ? 1 : 0},
+          poll_error = ${pollError ? JSON.stringify(pollError) : null}, unattended_end_at = ${unattendedEndAt},
+          status_changes = ${JSON.stringify(changes)},
+          next_poll_at = ${Date.now() + row.poll_interval_ms}
+      WHERE job_execution_id = ${jobExecutionId}
+    `;
+
+    const result = this.get(jobExecutionId)!;
+    if (changed) {
+      for (const waiter of waiters) {
+        try {
+          await waiter.onStatusChange?.(changes[changes.length - 1], result);
+        } catch (error) {
+          this.logger.error('Failed to report job status change', { jobExecutionId, error });
+        }
+      }
+    }
+
+    if (ended) {
+      for (const waiter of waiters) {
+        waiter.resolve(result);
+      }
+      this.waiters.delete(jobExecutionId);
+      this.clients.delete(jobExecutionId);
+    }
+    return result;
+  }
+
+  private async scheduleNextPoll(): Promise<void> {
+    const [next] = this.sql<{ next_poll_at: number | null }>`
+      SELECT MIN(next_poll_at) AS next_poll_at FROM copado_job_watches
+      WHERE finished = 0 AND timed_out = 0 AND poll_error IS NULL
+    `;
+    if (next?.next_poll_at != null) {
+      await this.setAlarm(Math.max(next.next_poll_at, Date.now()));
+    }
+  }
+}
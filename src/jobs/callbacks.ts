@@ -0,0 +1,42 @@
+import { hashToken } from "../auth/bearerTokens.js";
+import { CopadoValidationError } from "../copado/errors.js";
+import type { JobExecution } from "../copado/models.js";
+
+// Copado (or a local stand-in) POSTs job execution updates to
+// /copado/callback/{token}, where the token identifies the session that started the job
+export const CALLBACK_PATH_PREFIX = '/copado/callback/';
+
+export const CALLBACK_SECRET_HEADER = 'X-Copado-Callback-Secret';
+
+// Compare digests so the time taken does not depend on how much of the secret matched
+export async function verifyCallbackSecret(provided: string | null, expected: string): Promise<boolean> {
+  if (!provided) {
+    return false;
+  }
+  const [providedHash, expectedHash] = await Promise.all([hashToken(provided), hashToken(expected)]);
+  return providedHash === expectedHash;
+}
+
+// Accepts {jobExecution: {...}}, a bare job execution record, or the short
+// {jobExecutionId, status, errorMessage} form, and returns a job execution
+export function jobExecutionFromCallback(body: unknown): JobExecution {
+  if (typeof body !== 'object' || body === null) {
+    throw new CopadoValidationError('Callback body must be a JSON object');
+  }
+
+  const record = body as Record<string, unknown>;
+  const wrapped = record.jobExecution;
+  const jobExecution = (typeof wrapped === 'object' && wrapped !== null ? wrapped : record) as JobExecution;
+
+  const id = jobExecution.Id ?? record.jobExecutionId;
+  if (typeof id !== 'string' || !id) {
+    throw new CopadoValidationError('Callback body has no job execution ID (expected Id or jobExecutionId)');
+  }
+
+  return {
+    ...jobExecution,
+    Id: id,
+    status: jobExecution.status ?? (typeof record.status === 'string' ? record.status : undefined),
+    errorMessage: jobExecution.errorMessage ?? (typeof record.errorMessage === 'string' ? record.errorMessage : undefined),
+  };
+}
@@ -0,0 +1,75 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir, userInfo } from "node:os";
+import { join, resolve } from "node:path";
+import type { Identity } from "../auth/bearerTokens.js";
+import { isRole, type Role } from "../auth/roles.js";
+import type { SessionSettings } from "../session/CopadoSession.js";
+
+// Contents of the local config file. Object values use the formats of the Worker
+// variables of the same name (COPADO_ENVIRONMENTS, COPADO_MOCK, COPADO_ENDPOINTS).
+export interface LocalConfigFile {
+  apiKey?: string;
+  environments?: Record<string, unknown>;
+  mock?: boolean | Record<string, unknown>;
+  endpoints?: Record<string, unknown>;
+  endpointProfile?: string;
+  /** SQLite file for the history and other stores, or ":memory:" */
+  database?: string;
+  /** Recorded as the actor of every operation (default: the OS user name) */
+  subject?: string;
+  /** Limits the tools, as for a bearer token (default: release-manager) */
+  role?: Role;
+  debug?: boolean;
+}
+
+export interface LocalConfig {
+  /** Config file that was read, if any */
+  path?: string;
+  database: string;
+  settings: SessionSettings;
+}
+
+export const CONFIG_DIRECTORY = join(homedir(), '.copado-mcp');
+
+const DEFAULT_CONFIG_PATH = join(CONFIG_DIRECTORY, 'config.json');
+
+const DEFAULT_DATABASE = join(CONFIG_DIRECTORY, 'copado-mcp.db');
+
+function json(value: unknown): string | undefined {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+// Settings for a local session: environment variables first, then the config file
+// (--config, COPADO_MCP_CONFIG or ~/.copado-mcp/config.json). Local sessions are
+// not authenticated; the OS user is recorded as the actor.
+export function loadLocalConfig(configPath?: string, env: Record<string, string | undefined> = process.env): LocalConfig {
+  const explicitPath = configPath ?? env.COPADO_MCP_CONFIG;
+  const path = explicitPath ? resolve(explicitPath) : existsSync(DEFAULT_CONFIG_PATH) ? DEFAULT_CONFIG_PATH : undefined;
+
+  let file: LocalConfigFile = {};
+  if (path) {
+    try {
+      file = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (file.role !== undefined && !isRole(file.role)) {
+    throw new Error(`Invalid role "${file.role}" in ${path}`);
+  }
+
+  const identity: Identity = { subject: file.subject ?? userInfo().username, role: file.role ?? 'release-manager' };
+  return {
+    path,
+    database: env.COPADO_MCP_DATABASE ?? file.database ?? DEFAULT_DATABASE,
+    settings: {
+      defaultApiKey: env.COPADO_API_KEY ?? file.apiKey,
+      environments: env.COPADO_ENVIRONMENTS ?? json(file.environments),
+      mock: env.COPADO_MOCK ?? json(file.mock),
+      endpoints: env.COPADO_ENDPOINTS ?? json(file.endpoints),
+      endpointProfile: env.COPADO_ENDPOINT_PROFILE ?? file.endpointProfile,
+      debug: env.COPADO_MCP_DEBUG === 'true' || file.debug,
+      identity,
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { LogLevel } from "../logging/Logger.js";
+import { CopadoSession } from "../session/CopadoSession.js";
+import { openSqlite } from "../storage/nodeSqlite.js";
+import { sharedSql } from "../storage/sql.js";
+import type { LocalConfig } from "./config.js";
+
+export interface LocalSession {
+  session: CopadoSession;
+  close(): void;
+}
+
+// stdout belongs to the MCP protocol (stdio) or to command output (CLI)
+function writeToStderr(_level: LogLevel, line: string): void {
+  process.stderr.write(`${line}\n`);
+}
+
+// A session over the local SQLite file, which also holds the state shared with the
+// other local processes (stdio server, CLI). Job polling runs on a timer instead of
+// a Durable Object alarm; the timer keeps the process alive while a job is watched.
+export async function openLocalSession(config: LocalConfig): Promise<LocalSession> {
+  const database = openSqlite(config.database);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const settings = { ...config.settings, writeLog: writeToStderr };
+  const session: CopadoSession = new CopadoSession(database.sql, sharedSql(database.sql), settings, async (scheduledTime) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      session.pollDue().catch(error => session.logger.error("Job polling failed", { error }));
+    }, Math.max(0, scheduledTime - Date.now()));
+  });
+  await session.initialize();
+
+  return {
+    session,
+    close() {
+      clearTimeout(timer);
+      database.close();
+    },
+  };
+}
@@ -0,0 +1,134 @@
+// Structured JSON logging. One line per entry so Workers observability can index
+// the fields, with keys, tokens and other secrets redacted at any depth.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  /** Entries below this level are dropped (default: info) */
+  level?: LogLevel;
+  /** Fields added to every entry, e.g. a correlation ID */
+  fields?: LogFields;
+  /** Exact values to mask wherever they appear, e.g. the webhook key in use */
+  secrets?: string[];
+  write?: (level: LogLevel, line: string) => void;
+}
+
+export const REDACTED = '[REDACTED]';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names whose values are never logged: key, apiKey, copado-webhook-key, tokens, secrets…
+const SENSITIVE_FIELD = /(?:^|[-_])key$|apikey|webhookkey|token|secret|password|authorization|cookie|credential/;
+
+// Secrets embedded in free text, e.g. a response body or an error message
+const SENSITIVE_TEXT = [
+  /(Bearer\s+)[^\s"',]+/gi,
+  /("(?:key|apiKey|token|secret|password)"\s*:\s*")[^"]*/gi,
+];
+
+function redactText(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const pattern of SENSITIVE_TEXT) {
+    redacted = redacted.replace(pattern, `$1${REDACTED}`);
+  }
+  return redacted;
+}
+
+// Copy of value with sensitive fields and known secrets replaced
+export function redact(value: unknown, secrets: string[] = [], seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return redactText(value, secrets);
+  }
+  if (value instanceof Error) {
+    const kind = (value as { kind?: unknown }).kind;
+    return redact({ name: value.name, message: value.message, ...(kind ? { kind } : {}) }, secrets, seen);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, secrets, seen));
+  }
+  return Object.fromEntries(Object.entries(value).map(([field, fieldValue]) => [
+    field,
+    SENSITIVE_FIELD.test(field.toLowerCase()) && fieldValue != null ? REDACTED : redact(fieldValue, secrets, seen)
+  ]));
+}
+
+function writeToConsole(level: LogLevel, line: string): void {
+  switch (level) {
+    case 'debug':
+      console.debug(line);
+      break;
+    case 'warn':
+      console.warn(line);
+      break;
+    case 'error':
+      console.error(line);
+      break;
+    default:
+      console.log(line);
+  }
+}
+
+export class Logger {
+  private readonly level: LogLevel;
+  private readonly fields: LogFields;
+  private readonly secrets: string[];
+  private readonly write: (level: LogLevel, line: string) => void;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.fields = options.fields ?? {};
+    this.secrets = (options.secrets ?? []).filter(secret => secret.length >= 4);
+    this.write = options.write ?? writeToConsole;
+  }
+
+  // Logger sharing this one's level and output, with extra fields and secrets
+  child(fields: LogFields, secrets: string[] = []): Logger {
+    return new Logger({
+      level: this.level,
+      fields: { ...this.fields, ...fields },
+      secrets: [...this.secrets, ...secrets],
+      write: this.write,
+    });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const entry = redact({ ...this.fields, ...fields }, this.secrets) as LogFields;
+    this.write(level, JSON.stringify({ time: new Date().toISOString(), level, message, ...entry }));
+  }
+}
@@ -0,0 +1,284 @@
+import { CopadoValidationError } from "../copado/errors.js";
+import type { Logger } from "../logging/Logger.js";
+import type { Environment, EnvironmentRegistry } from "../storage/EnvironmentRegistry.js";
+import type { SharedSqlTag } from "../storage/sql.js";
+
+export type DeploymentDecision = 'blocked' | 'approved' | 'rejected';
+
+export interface DeploymentRequest {
+  tool: string;
+  /** Authenticated subject making the request */
+  actor?: string;
+  /** Name or ID of the environment the caller expects to deploy to; checked against the destination */
+  targetEnvironment?: string;
+  /** Environment the deployed promotion starts from, for promote-and-deploy requests */
+  sourceEnvironmentId?: string;
+  /** Existing promotion to deploy; its source environment was recorded when it was created */
+  promotionId?: string;
+  /** Identifies the deployment; a token only approves an identical request */
+  details: Record<string, unknown>;
+}
+
+export interface ConfirmationRequired {
+  token: string;
+  expiresAt: string;
+  environment: string;
+  reason: string;
+}
+
+export interface DeploymentAuditEntry {
+  id: number;
+  at: string;
+  tool: string;
+  actor?: string;
+  environment: string;
+  decision: DeploymentDecision;
+  reason: string;
+  details: Record<string, unknown>;
+}
+
+interface PromotionRow {
+  source_environment_id: string;
+}
+
+interface ConfirmationRow {
+  token: string;
+  fingerprint: string;
+  expires_at: number;
+  used_at: string | null;
+}
+
+interface AuditRow {
+  id: number;
+  at: string;
+  tool: string;
+  actor: string | null;
+  environment: string;
+  decision: DeploymentDecision;
+  reason: string;
+  details: string;
+}
+
+// Confirmation tokens are meant to be echoed back right after the user agrees
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+function toAuditEntry(row: AuditRow): DeploymentAuditEntry {
+  return {
+    id: row.id,
+    at: row.at,
+    tool: row.tool,
+    actor: row.actor ?? undefined,
+    environment: row.environment,
+    decision: row.decision,
+    reason: row.reason,
+    details: JSON.parse(row.details),
+  };
+}
+
+// Two-step approval for deployments to protected environments. The first call
+// is blocked and returns a short-lived, single-use token; repeating the same
+// request with that token lets it through. Every decision is audited in the
+// tenant's shared storage.
+export class DeploymentGuard {
+  private readonly ready: Promise<void>;
+
+  constructor(
+    private readonly sql: SharedSqlTag,
+    private readonly environments: EnvironmentRegistry,
+    private readonly logger: Logger
+  ) {
+    this.ready = this.migrate();
+  }
+
+  private async migrate(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_deploy_confirmations (
+        token TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        used_at TEXT
+      )
+    `;
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_deploy_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        actor TEXT,
+        environment TEXT NOT NULL,
+        decision TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        details TEXT NOT NULL
+      )
+    `;
+    // Source environment of every promotion created through this server, so a
+    // later deployment can be traced to its destination
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_promotions (
+        promotion_id TEXT PRIMARY KEY,
+        source_environment_id TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `;
+    // Audit logs created before callers were authenticated lack the column
+    const columns = await this.sql<{ name: string }>`PRAGMA table_info(copado_deploy_audit)`;
+    if (!columns.some(column => column.name === 'actor')) {
+      await this.sql`ALTER TABLE copado_deploy_audit ADD COLUMN actor TEXT`;
+    }
+  }
+
+  // Remember where a promotion starts, so deploying it later reaches a known destination
+  async recordPromotion(promotionId: string, sourceEnvironmentId: string): Promise<void> {
+    await this.ready;
+    await this.sql`
+      INSERT OR REPLACE INTO copado_promotions (promotion_id, source_environment_id, created_at)
+      VALUES (${promotionId}, ${sourceEnvironmentId}, ${new Date().toISOString()})
+    `;
+  }
+
+  // Returns undefined when the deployment may go ahead, or the confirmation the
+  // caller has to obtain. Throws if a token is given but does not approve it, or
+  // if the destination cannot be determined while environments are protected.
+  async authorize(request: DeploymentRequest, confirmationToken?: string): Promise<ConfirmationRequired | undefined> {
+    await this.ready;
+    const target = await this.protectedTarget(request);
+    if (!target) {
+      return undefined;
+    }
+    const { environment } = target;
+
+    const fingerprint = JSON.stringify({ tool: request.tool, environment, details: request.details });
+
+    if (confirmationToken) {
+      const now = Date.now();
+      const [row] = await this.sql<ConfirmationRow>`
+        SELECT * FROM copado_deploy_confirmations WHERE token = ${confirmationToken.trim()}
+      `;
+      let reason = !row ? 'unknown confirmation token'
+        : row.used_at ? 'confirmation token already used'
+        : row.expires_at < now ? 'confirmation token expired'
+        : row.fingerprint !== fingerprint ? 'confirmation token was issued for a different deployment'
+        : undefined;
+      // Claimed in one statement, so two sessions cannot both use the token
+      if (!reason) {
+        const claimed = await this.sql`
+          UPDATE copado_deploy_confirmations SET used_at = ${new Date(now).toISOString()}
+          WHERE token = ${confirmationToken.trim()} AND used_at IS NULL
+          RETURNING token
+        `;
+        reason = claimed.length === 0 ? 'confirmation token already used' : undefined;
+      }
+      if (reason) {
+        await this.audit(request, environment, 'rejected', reason);
+        throw new CopadoValidationError(
+          `Deployment to protected environment ${environment} refused: ${reason}. Call again without confirmationToken to request a new one.`
+        );
+      }
+
+      await this.audit(request, environment, 'approved', 'confirmed with token');
+      return undefined;
+    }
+
+    const { reason } = target;
+    const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+    const token = crypto.randomUUID();
+    await this.sql`
+      DELETE FROM copado_deploy_confirmations WHERE expires_at < ${Date.now()}
+    `;
+    await this.sql`
+      INSERT INTO copado_deploy_confirmations (token, fingerprint, expires_at)
+      VALUES (${token}, ${fingerprint}, ${expiresAt})
+    `;
+    await this.audit(request, environment, 'blocked', reason);
+
+    return { token, expiresAt: new Date(expiresAt).toISOString(), environment, reason };
+  }
+
+  async auditLog(limit = 50): Promise<DeploymentAuditEntry[]> {
+    await this.ready;
+    const rows = await this.sql<AuditRow>`
+      SELECT * FROM copado_deploy_audit ORDER BY id DESC LIMIT ${Math.min(Math.max(limit, 1), 500)}
+    `;
+    return rows.map(toAuditEntry);
+  }
+
+  // The protected environment the request deploys to, if any, and why. The
+  // destination comes from the registered destination of the promotion's source
+  // environment, never from the caller's targetEnvironment; when it cannot be
+  // determined while any environment is protected, the request is refused.
+  private async protectedTarget(request: DeploymentRequest): Promise<{ environment: string, reason: string } | undefined> {
+    const protectedNames = (await this.environments.list())
+      .filter(environment => environment.protected)
+      .map(environment => environment.name);
+    if (protectedNames.length === 0) {
+      return undefined;
+    }
+    const candidates = protectedNames.join(', ');
+
+    const found = await this.destination(request);
+    if ('problem' in found) {
+      throw await this.refusal(request, candidates, found.problem);
+    }
+    const { destination } = found;
+    const target = request.targetEnvironment?.trim();
+    if (target && (await this.environments.find(target))?.environmentId.slice(0, 15) !== destination.environmentId.slice(0, 15)) {
+      throw await this.refusal(request, destination.name, `targetEnvironment "${target}" is not where the promotion deploys to (${destination.name})`);
+    }
+
+    return await this.environments.isProtected(destination.environmentId)
+      ? { environment: destination.name, reason: `${destination.name} is a protected environment` }
+      : undefined;
+  }
+
+  // Where the request deploys to: the registered destination of the source
+  // environment it was promoted from, or what is missing to tell
+  private async destination(request: DeploymentRequest): Promise<{ destination: Environment } | { problem: string }> {
+    let sourceEnvironmentId = request.sourceEnvironmentId;
+    if (!sourceEnvironmentId && request.promotionId) {
+      const [row] = await this.sql<PromotionRow>`
+        SELECT source_environment_id FROM copado_promotions WHERE promotion_id = ${request.promotionId.trim()}
+      `;
+      sourceEnvironmentId = row?.source_environment_id;
+      if (!sourceEnvironmentId) {
+        return {
+          problem: `promotion ${request.promotionId.trim()} was not created through promote_user_story, so the environment it deploys to is unknown`
+        };
+      }
+    }
+    if (!sourceEnvironmentId) {
+      return { problem: 'the promotion to deploy is unknown' };
+    }
+
+    const destination = await this.environments.destinationOf(sourceEnvironmentId);
+    if (!destination) {
+      const source = await this.environments.find(sourceEnvironmentId);
+      return {
+        problem: `no destination is registered for source environment ${source?.name ?? sourceEnvironmentId}; register it with promotesTo to deploy its promotions`
+      };
+    }
+    return { destination };
+  }
+
+  // Audit a deployment that cannot be checked and return the error refusing it
+  private async refusal(request: DeploymentRequest, environment: string, reason: string): Promise<CopadoValidationError> {
+    await this.audit(request, environment, 'rejected', reason);
+    return new CopadoValidationError(`Deployment refused: ${reason}.`);
+  }
+
+  private async audit(request: DeploymentRequest, environment: string, decision: DeploymentDecision, reason: string): Promise<void> {
+    await this.sql`
+      INSERT INTO copado_deploy_audit (at, tool, actor, environment, decision, reason, details)
+      VALUES (
+        ${new Date().toISOString()}, ${request.tool}, ${request.actor ?? null}, ${environment},
+        ${decision}, ${reason}, ${JSON.stringify(request.details)}
+      )
+    `;
+    this.logger[decision === 'approved' ? 'info' : 'warn'](`Deployment ${decision}`, {
+      tool: request.tool,
+      actor: request.actor,
+      environment,
+      reason,
+      details: request.details,
+    });
+  }
+}
@@ -0,0 +1,829 @@
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Identity } from "../auth/bearerTokens.js";
+import { canUseTool, type Role, roleOf } from "../auth/roles.js";
+import { actionUrls, type EndpointProfiles, parseEndpointProfiles, resolveEndpoint } from "../copado/endpoints.js";
+import { DEFAULT_MOCK_CONFIG, MOCK_API_KEY, MockCopadoBackend, parseMockConfig } from "../copado/MockCopadoBackend.js";
+import { JobWatcher } from "../jobs/JobWatcher.js";
+import { type LogLevel, Logger } from "../logging/Logger.js";
+import { DeploymentGuard } from "../policy/DeploymentGuard.js";
+import { EnvironmentRegistry } from "../storage/EnvironmentRegistry.js";
+import { IdempotencyStore } from "../storage/IdempotencyStore.js";
+import { OperationHistory } from "../storage/OperationHistory.js";
+import { ReleaseStore } from "../storage/ReleaseStore.js";
+import type { SharedSqlTag, SqlTag } from "../storage/sql.js";
+import { checkJobStatusesOutputSchema, checkJobStatusesSchema, checkJobStatusesTool } from "../tools/CheckJobStatusesTool.js";
+import { checkJobStatusOutputSchema, checkJobStatusSchema, checkJobStatusTool } from "../tools/CheckJobStatusTool.js";
+import { commitOutputSchema, commitSchema, commitTool } from "../tools/CommitTool.js";
+import { deployPromotionOutputSchema, deployPromotionSchema, deployPromotionTool } from "../tools/DeployPromotionTool.js";
+import { listEnvironmentsOutputSchema, listEnvironmentsTool } from "../tools/ListEnvironmentsTool.js";
+import { listRecentOperationsOutputSchema, listRecentOperationsSchema, listRecentOperationsTool } from "../tools/ListRecentOperationsTool.js";
+import { previewCommitOutputSchema, previewCommitSchema, previewCommitTool } from "../tools/PreviewCommitTool.js";
+import { promoteOutputSchema, promoteSchema, promoteTool } from "../tools/PromoteTool.js";
+import { registerEnvironmentOutputSchema, registerEnvironmentSchema, registerEnvironmentTool } from "../tools/RegisterEnvironmentTool.js";
+import { releaseOutputSchema, releaseUserStoriesSchema, releaseUserStoriesTool } from "../tools/ReleaseUserStoriesTool.js";
+import { resumeReleaseSchema, resumeReleaseTool } from "../tools/ResumeReleaseTool.js";
+import { createClient, type ToolContext } from "../tools/ToolContext.js";
+import { waitForJobOutputSchema, waitForJobSchema, waitForJobTool } from "../tools/WaitForJobTool.js";
+
+// Configuration of one session, from the Worker's variables and connection props
+// or from the local environment and config file. JSON values use the formats of
+// the Worker variables of the same name.
+export interface SessionSettings {
+  /** Key supplied when the session was opened */
+  sessionApiKey?: string;
+  /** Deployment-wide key: the COPADO_API_KEY secret or local environment variable */
+  defaultApiKey?: string;
+  /** COPADO_ENVIRONMENTS: default environments seeded into the registry */
+  environments?: string;
+  /** COPADO_MOCK: "true" or mock backend settings */
+  mock?: string;
+  /** COPADO_ENDPOINTS: named endpoint profiles */
+  endpoints?: string;
+  /** Endpoint profile chosen for the session, else COPADO_ENDPOINT_PROFILE */
+  endpointProfile?: string;
+  debug?: boolean;
+  /** Overrides the level chosen by debug, e.g. warn for command-line use */
+  logLevel?: LogLevel;
+  /** Authenticated caller; decides the role and is recorded in the history */
+  identity?: Identity;
+  /** MCP_ANONYMOUS_ROLE: role of sessions without an identity (default read-only) */
+  anonymousRole?: Role;
+  /** Where log lines go; the console by default */
+  writeLog?: (level: LogLevel, line: string) => void;
+}
+
+// The stores, tools and resources of one MCP session, shared by the Worker's
+// Durable Object and the local stdio server so both behave the same. The host
+// provides the session's SQLite database (job watches), the storage shared by all
+// sessions of the tenant (environments, history, idempotency, releases, deployment
+// audit, mock backend) and a way to wake the session for job polling.
+export class CopadoSession {
+  readonly environments: EnvironmentRegistry;
+  readonly jobs: JobWatcher;
+  readonly history: OperationHistory;
+  readonly deployments: DeploymentGuard;
+  readonly idempotency: IdempotencyStore;
+  readonly releases: ReleaseStore;
+  readonly mockBackend?: MockCopadoBackend;
+  readonly endpoints: EndpointProfiles;
+  readonly logger: Logger;
+
+  constructor(
+    sql: SqlTag,
+    shared: SharedSqlTag,
+    private readonly settings: SessionSettings,
+    setAlarm: (scheduledTime: number) => Promise<void>
+  ) {
+    let endpointsError: unknown;
+    try {
+      this.endpoints = parseEndpointProfiles(settings.endpoints);
+    } catch (error) {
+      // Calls fail until the variable is fixed, instead of going to the wrong host
+      endpointsError = error;
+      this.endpoints = new Map();
+    }
+    // Profile headers may carry gateway credentials
+    const headerValues = [...this.endpoints.values()].flatMap((profile) => Object.values(profile.headers));
+
+    // Payload dumps only for sessions opened with debug enabled
+    this.logger = new Logger({
+      level: settings.logLevel ?? (settings.debug ? "debug" : "info"),
+      fields: { subject: settings.identity?.subject },
+      secrets: [settings.sessionApiKey, settings.defaultApiKey, ...headerValues].filter((secret): secret is string => Boolean(secret)),
+      write: settings.writeLog,
+    });
+    if (endpointsError) {
+      this.logger.error("Invalid COPADO_ENDPOINTS; Copado calls will fail until it is fixed", { error: endpointsError });
+    }
+
+    this.environments = new EnvironmentRegistry(shared);
+    this.jobs = new JobWatcher(sql, setAlarm, this.logger.child({ component: "job-watcher" }));
+    this.history = new OperationHistory(shared);
+    this.deployments = new DeploymentGuard(shared, this.environments, this.logger.child({ component: "deployment-guard" }));
+    this.idempotency = new IdempotencyStore(shared);
+    this.releases = new ReleaseStore(shared);
+
+    let mockConfig: ReturnType<typeof parseMockConfig>;
+    try {
+      mockConfig = parseMockConfig(settings.mock);
+    } catch (error) {
+      // Stay offline rather than fall through to the real Copado API
+      this.logger.error("Invalid COPADO_MOCK, using the default mock settings", { error });
+      mockConfig = DEFAULT_MOCK_CONFIG;
+    }
+    this.mockBackend = mockConfig ? new MockCopadoBackend(shared, mockConfig) : undefined;
+  }
+
+  // Context passed to each tool call, carrying this session's credentials, a
+  // logger with a fresh correlation ID and a progress reporter bound to the request
+  toolContext(tool: string, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolContext {
+    const progressToken = extra?._meta?.progressToken;
+
+    return {
+      credentials: {
+        sessionApiKey: this.settings.sessionApiKey,
+        // The mock backend accepts any key, so it works without one configured
+        workerApiKey: this.settings.defaultApiKey || (this.mockBackend ? MOCK_API_KEY : undefined),
+      },
+      endpoints: this.endpoints,
+      endpointProfile: this.settings.endpointProfile,
+      environments: this.environments,
+      jobs: this.jobs,
+      history: this.history,
+      deployments: this.deployments,
+      releases: this.releases,
+      identity: this.settings.identity,
+      role: roleOf(this.settings.identity, this.settings.anonymousRole),
+      logger: this.logger.child({ tool, correlationId: crypto.randomUUID() }),
+      reportProgress: extra && progressToken !== undefined
+        ? (progress, message) => extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, message },
+        })
+        : undefined,
+      fetch: this.mockBackend?.fetch,
+    };
+  }
+
+  // Run once when the session starts, not when it only wakes for polling
+  async initialize() {
+    if (this.mockBackend) {
+      this.logger.info("Copado calls are answered by the mock backend", { config: this.mockBackend.config });
+    }
+    if (this.settings.environments) {
+      try {
+        await this.environments.seed(JSON.parse(this.settings.environments));
+      } catch (error) {
+        this.logger.error("Ignoring invalid COPADO_ENVIRONMENTS", { error });
+      }
+    }
+  }
+
+  // Poll the watched jobs that are due; called when the host's alarm fires
+  async pollDue(): Promise<void> {
+    const unattended = await this.jobs.pollDue(() => createClient(this.toolContext("job_watcher")));
+    // No wait_for_job call is left to record these, e.g. after an eviction
+    for (const watch of unattended) {
+      try {
+        await this.history.updateJobStatus(watch.jobExecutionId, watch.status, watch.errorMessage);
+      } catch (error) {
+        this.logger.error("Could not record the final job status", { jobExecutionId: watch.jobExecutionId, error });
+      }
+    }
+  }
+
+  // Webhook URLs of the active endpoint profile, for the docs resource
+  endpointDocs(): string {
+    if (this.mockBackend) {
+      return "Mock mode is on: every call is answered by the simulated backend (see Mock Mode), not by Copado.";
+    }
+    let active: ReturnType<typeof resolveEndpoint>;
+    try {
+      active = resolveEndpoint(this.endpoints, this.settings.endpointProfile);
+    } catch (error) {
+      return `⚠️ ${error instanceof Error ? error.message : String(error)}`;
+    }
+    const urls = actionUrls(active.profile);
+    const headers = Object.keys(active.profile.headers);
+    const configured = this.endpoints.size > 1 ? ` (configured: ${[...this.endpoints.keys()].join(", ")})` : "";
+    return [
+      `Profile: \`${active.name}\`${configured}`,
+      `- Commit: \`${urls.Commit}\``,
+      `- Promote: \`${urls.Promotion}\``,
+      `- Deploy: \`${urls.PromotionDeployment}\``,
+      `- Status: \`${urls.CheckStatusAction}\``,
+      ...(headers.length > 0 ? [`- Extra headers: ${headers.join(", ")}`] : []),
+    ].join("\n");
+  }
+
+  // Run a Copado tool and keep its structured result in the operation history
+  async recorded<T extends { structuredContent?: Record<string, unknown> }>(
+    tool: string,
+    execution: Promise<T>
+  ): Promise<T> {
+    const result = await execution;
+    try {
+      await this.history.recordToolResult(tool, result.structuredContent, this.settings.identity?.subject);
+    } catch (error) {
+      this.logger.error("Failed to record tool result in operation history", { tool, error });
+    }
+    return result;
+  }
+
+  // Run a mutating tool at most once per idempotency key. Successful results are
+  // stored, so a retry returns them without calling the Copado webhook again.
+  async idempotent<T extends { structuredContent?: Record<string, unknown>; content: { type: "text"; text: string }[] }>(
+    tool: string,
+    args: Record<string, unknown>,
+    execute: () => Promise<T>,
+    failure: (error: unknown) => T
+  ): Promise<T> {
+    try {
+      const { result, replayed, key, storedAt } = await this.idempotency.run(
+        tool,
+        args,
+        () => this.recorded(tool, execute()),
+        (result) => result.structuredContent?.success === true
+      );
+      if (!replayed) {
+        return result;
+      }
+
+      this.logger.info("Returned stored result for repeated tool call", { tool, idempotencyKey: key });
+      return {
+        ...result,
+        structuredContent: { ...result.structuredContent, replayed: true },
+        content: [
+          {
+            type: "text" as const,
+            text: `♻️ REPLAYED – this is the result of the call with idempotencyKey "${key}"${storedAt ? ` made at ${storedAt}` : ""}. Copado was not called again, so nothing new was started; pass a new idempotencyKey to run it again.`,
+          },
+          ...result.content,
+        ],
+      };
+    } catch (error) {
+      return failure(error);
+    }
+  }
+
+  // Register the tools the session's role may use, the shared resources and the documentation
+  register(server: McpServer) {
+    // Register tools with output schemas so results carry structuredContent.
+    // Tools the session's role may not use are not registered at all, so they
+    // are missing from tools/list and calls to them are refused.
+    const role = roleOf(this.settings.identity, this.settings.anonymousRole);
+    if (canUseTool(role, commitTool.name)) {
+      server.registerTool(
+          commitTool.name,
+          {
+            description: commitTool.description,
+            annotations: commitTool.annotations,
+            inputSchema: commitSchema,
+            outputSchema: commitOutputSchema,
+          },
+          (args) => this.idempotent(
+            commitTool.name,
+            args,
+            () => commitTool.execute(args, this.toolContext(commitTool.name)),
+            (error) => commitTool.failure(args, error)
+          )
+      );
+    }
+
+    // Read-only: parses the description without calling Copado
+    if (canUseTool(role, previewCommitTool.name)) {
+      server.registerTool(
+          previewCommitTool.name,
+          {
+            description: previewCommitTool.description,
+            annotations: previewCommitTool.annotations,
+            inputSchema: previewCommitSchema,
+            outputSchema: previewCommitOutputSchema,
+          },
+          (args) => previewCommitTool.execute(args)
+      );
+    }
+
+    if (canUseTool(role, promoteTool.name)) {
+      server.registerTool(
+          promoteTool.name,
+          {
+            description: promoteTool.description,
+            annotations: promoteTool.annotations,
+            inputSchema: promoteSchema,
+            outputSchema: promoteOutputSchema,
+          },
+          (args) => this.idempotent(
+            promoteTool.name,
+            args,
+            () => promoteTool.execute(args, this.toolContext(promoteTool.name)),
+            (error) => promoteTool.failure(args, error)
+          )
+      );
+    }
+
+    if (canUseTool(role, deployPromotionTool.name)) {
+      server.registerTool(
+          deployPromotionTool.name,
+          {
+            description: deployPromotionTool.description,
+            annotations: deployPromotionTool.annotations,
+            inputSchema: deployPromotionSchema,
+            outputSchema: deployPromotionOutputSchema,
+          },
+          (args) => this.idempotent(
+            deployPromotionTool.name,
+            args,
+            () => deployPromotionTool.execute(args, this.toolContext(deployPromotionTool.name)),
+            (error) => deployPromotionTool.failure(args, error)
+          )
+      );
+    }
+
+    if (canUseTool(role, checkJobStatusTool.name)) {
+      server.registerTool(
+          checkJobStatusTool.name,
+          {
+            description: checkJobStatusTool.description,
+            annotations: checkJobStatusTool.annotations,
+            inputSchema: checkJobStatusSchema,
+            outputSchema: checkJobStatusOutputSchema,
+          },
+          (args) => this.recorded(checkJobStatusTool.name, checkJobStatusTool.execute(args, this.toolContext(checkJobStatusTool.name)))
+      );
+    }
+
+    // Updates the history itself, one entry per job
+    if (canUseTool(role, checkJobStatusesTool.name)) {
+      server.registerTool(
+          checkJobStatusesTool.name,
+          {
+            description: checkJobStatusesTool.description,
+            annotations: checkJobStatusesTool.annotations,
+            inputSchema: checkJobStatusesSchema,
+            outputSchema: checkJobStatusesOutputSchema,
+          },
+          (args) => checkJobStatusesTool.execute(args, this.toolContext(checkJobStatusesTool.name))
+      );
+    }
+
+    if (canUseTool(role, waitForJobTool.name)) {
+      server.registerTool(
+          waitForJobTool.name,
+          {
+            description: waitForJobTool.description,
+            annotations: waitForJobTool.annotations,
+            inputSchema: waitForJobSchema,
+            outputSchema: waitForJobOutputSchema,
+          },
+          (args, extra) => this.recorded(waitForJobTool.name, waitForJobTool.execute(args, this.toolContext(waitForJobTool.name, extra)))
+      );
+    }
+
+    // Steps are recorded in the history individually, so the release itself is not
+    if (canUseTool(role, releaseUserStoriesTool.name)) {
+      server.registerTool(
+          releaseUserStoriesTool.name,
+          {
+            description: releaseUserStoriesTool.description,
+            annotations: releaseUserStoriesTool.annotations,
+            inputSchema: releaseUserStoriesSchema,
+            outputSchema: releaseOutputSchema,
+          },
+          (args, extra) => releaseUserStoriesTool.execute(args, this.toolContext(releaseUserStoriesTool.name, extra))
+      );
+    }
+
+    if (canUseTool(role, resumeReleaseTool.name)) {
+      server.registerTool(
+          resumeReleaseTool.name,
+          {
+            description: resumeReleaseTool.description,
+            annotations: resumeReleaseTool.annotations,
+            inputSchema: resumeReleaseSchema,
+            outputSchema: releaseOutputSchema,
+          },
+          (args, extra) => resumeReleaseTool.execute(args, this.toolContext(resumeReleaseTool.name, extra))
+      );
+    }
+
+    if (canUseTool(role, listRecentOperationsTool.name)) {
+      server.registerTool(
+          listRecentOperationsTool.name,
+          {
+            description: listRecentOperationsTool.description,
+            annotations: listRecentOperationsTool.annotations,
+            inputSchema: listRecentOperationsSchema,
+            outputSchema: listRecentOperationsOutputSchema,
+          },
+          (args) => listRecentOperationsTool.execute(args, this.toolContext(listRecentOperationsTool.name))
+      );
+    }
+
+    if (canUseTool(role, listEnvironmentsTool.name)) {
+      server.registerTool(
+          listEnvironmentsTool.name,
+          {
+            description: listEnvironmentsTool.description,
+            annotations: listEnvironmentsTool.annotations,
+            outputSchema: listEnvironmentsOutputSchema,
+          },
+          () => listEnvironmentsTool.execute(this.toolContext(listEnvironmentsTool.name))
+      );
+    }
+
+    if (canUseTool(role, registerEnvironmentTool.name)) {
+      server.registerTool(
+          registerEnvironmentTool.name,
+          {
+            description: registerEnvironmentTool.description,
+            annotations: registerEnvironmentTool.annotations,
+            inputSchema: registerEnvironmentSchema,
+            outputSchema: registerEnvironmentOutputSchema,
+          },
+          (args) => registerEnvironmentTool.execute(args, this.toolContext(registerEnvironmentTool.name))
+      );
+    }
+
+    // Registered environments, so the agent can see which orgs are valid promotion sources
+    server.resource(
+    "copado-environments",
+    "copado://environments",
+        async (uri) => ({
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(await this.environments.list(), null, 2)
+          }]
+        })
+    );
+
+    // Blocked, approved and rejected deployments to protected environments
+    server.resource(
+    "copado-deployment-audit",
+    "copado://audit/deployments",
+        async (uri) => ({
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(await this.deployments.auditLog(), null, 2)
+          }]
+        })
+    );
+
+    // Operation history for one user story, e.g. copado://history/a1u7Q000000LkSVQA0
+    server.resource(
+    "copado-history",
+    new ResourceTemplate("copado://history/{userStoryId}", { list: undefined }),
+        async (uri, { userStoryId }) => ({
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(await this.history.list({ userStoryId: String(userStoryId), limit: 200 }), null, 2)
+          }]
+        })
+    );
+
+    // Latest known state of one job execution; updated by polling and by Copado callbacks
+    server.resource(
+    "copado-job",
+    new ResourceTemplate("copado://jobs/{jobExecutionId}", { list: undefined }),
+        async (uri, { jobExecutionId }) => ({
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              jobExecutionId: String(jobExecutionId),
+              watch: this.jobs.get(String(jobExecutionId)) ?? null,
+              operations: await this.history.list({ jobExecutionId: String(jobExecutionId) }),
+            }, null, 2)
+          }]
+        })
+    );
+
+    // Add documentation resource
+    server.resource(
+    "copado-webhooks-docs",
+    "copado://webhooks/documentation",
+        async (uri) => ({
+          contents: [{
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# Copado MCP Server Documentation
+
+            ## Complete Copado Workflow Tools
+
+            ### 1. Commit Changes Tool
+            Commits changes to a Copado User Story with intelligent parsing of change descriptions.
+
+            **Usage:**
+            \`\`\`
+            I modified the AccountController apex class. Commit those changes to User Story a1u7Q000000LkSVQA0
+            \`\`\`
+
+            **Parameters:**
+            - **userStoryId**: The Salesforce ID of the User Story
+            - **changesDescription**: Natural language description of changes made
+            - **changes**: Optional explicit list of \`{action, name, type, module}\` entries; skips description parsing.
+             Types must be known Salesforce metadata types. Descriptions that yield no recognizable component, or whose
+             types are only guessed (\`fallback\` or \`quoted-default\` matches), are refused instead of committed.
+            - **sourcePaths** / **packageXml**: Optional SFDX source paths or a package.xml manifest. The metadata type,
+             API name (e.g. \`Account.Tier__c\`) and module directory are derived from each entry. Manifest types
+             must be known metadata types, and each \`<types>\` entry must list its members.
+            - **gitDiff**: Optional \`git diff --name-status\` output or full unified diff. Added and modified files become
+             Add changes, deleted files Delete changes and renames both. Companion \`-meta.xml\` files and the files of an
+             LWC or Aura bundle collapse into one component; a bundle is only deleted when its \`-meta.xml\` is. Files that
+             are not metadata (README, Jest tests, config) are listed as skipped.
+            - **sourceAction**: Action for components from sourcePaths/packageXml (Add, Delete or RetrieveOnly; default Add)
+            - **commitMessage**: Optional commit message (auto-generated if not provided)
+            - **apiKey**: Optional; must match the session's webhook key
+
+            **Previewing:** \`preview_commit\` takes the same \`changesDescription\` and returns the parsed changes without
+            calling Copado. Each component carries a confidence (\`pattern\`: name next to a type keyword, \`fallback\`:
+            capitalized word, \`quoted-default\`: quoted name assumed to be an ApexClass), and ambiguous words such as
+            "component" or "label" produce warnings. Only descriptions where every component is a \`pattern\` match are
+            \`committable\`. Confirm the preview with the user before committing.
+
+            ### 2. Promote User Story Tool
+            Creates a promotion for user stories. Optionally executes deployment automatically.
+
+            **Usage:**
+            \`\`\`
+            Promote user story a1u7Q000000LkSVQA0 from dev1
+            Promote and deploy user story a1u7Q000000LkSVQA0 from qa
+            Promote and validate user story a1u7Q000000LkSVQA0 from dev1
+            \`\`\`
+
+            **Parameters:**
+            - **userStoryIds**: User Story IDs to include (comma-separated or single ID)
+            - **sourceEnvironment**: Registered environment name (e.g. "dev1", "qa") or Salesforce Environment ID; defaults to the
+              only unprotected registered environment
+            - **executeDeployment**: Auto-deploy after promotion (default: false)
+            - **deploymentDryRun**: Run validation-only deployment (default: false)
+            - **targetEnvironment** / **confirmationToken**: See Protected Environments below
+            - **apiKey**: Optional; must match the session's webhook key
+
+            ### 3. Deploy Promotion Tool
+            Triggers a deployment of an existing promotion.
+
+            **Usage:**
+            \`\`\`
+            Deploy promotion a0q5p00001GTeo9AAD
+            \`\`\`
+
+            **Parameters:**
+            - **promotionId**: The Salesforce ID of the promotion record
+            - **targetEnvironment** / **confirmationToken**: See Protected Environments below
+            - **apiKey**: Optional; must match the session's webhook key
+
+            ### 4. Check Job Status Tool
+            Checks the status of a Copado job execution.
+
+            **Usage:**
+            \`\`\`
+            Check status of job a0sKa00000WBZN9IAP
+            \`\`\`
+
+            **Parameters:**
+            - **jobExecutionId**: The Job Execution ID to check status for
+            - **apiKey**: Optional; must match the session's webhook key
+
+            **Result:**
+            - **state**: Normalized status – queued, in-progress, completed, failed, cancelled or unknown
+            - **jobType**: commit, promotion, deployment or validation, derived from \`copado__Template__c\`
+            - **steps**: Result of each job step, with its own state and error message
+            - **data**: User stories, branches, promotion and deployment parsed from \`copado__DataJson__c\`
+            - **failureAnalysis** (failed jobs): Component failures (type, name, line/column, problem) and Apex test
+             failures (class, method, message), grouped into categories such as missing dependency, test coverage
+             below 75% or field integrity, each with a suggested fix
+
+            **Batch mode:** \`check_job_statuses\` checks many jobs at once – \`jobExecutionIds\`, and/or every job recorded
+            in the history for a \`promotionId\` or \`userStoryId\` – with at most \`concurrency\` (default 4) checks in flight.
+            It returns a table of job, type, status, duration and error headline, plus per-job structured results.
+
+            ### 5. Wait For Job Tool
+            Waits for a job execution to finish. Polling runs server-side on Durable Object alarms,
+            and a progress notification is sent on every status change (Not Started → In Progress → Completed/Failed).
+
+            **Usage:**
+            \`\`\`
+            Wait for job a0sKa00000WBZN9IAP to finish
+            \`\`\`
+
+            **Parameters:**
+            - **jobExecutionId**: The Job Execution ID to wait for
+            - **pollIntervalSeconds**: Seconds between status checks (default: 15)
+            - **maxWaitSeconds**: Maximum wait before returning the latest status (default: 600)
+            - **apiKey**: Optional; must match the session's webhook key
+
+            If a status check fails for good (e.g. a rejected key or unknown job), the result is an error and says nothing
+            about the job itself; calling wait_for_job again resumes polling.
+
+            Progress notifications only reach a wait_for_job call that is still connected. If the connection drops or the
+            session is evicted from memory mid-wait, polling carries on and the final status is written to the history,
+            but no notification is sent; calling wait_for_job again returns that status with \`endedUnattendedAt\` set.
+
+            ### 6. List Recent Operations Tool
+            Every commit, promotion, deployment and status result is recorded in a history shared by all sessions that use the
+            same webhook key, so it is still there after reconnecting or from another client.
+
+            **Usage:**
+            \`\`\`
+            What did we ship to user story a1u7Q000000LkSVQA0 last week?
+            Show failed operations for promotion a0q5p00001GTeo9AAD
+            \`\`\`
+
+            **Parameters:**
+            - **userStoryId** / **promotionId** / **status**: Optional filters
+            - **limit**: Maximum number of operations (default: 20)
+
+            The full history of one user story is also available as the \`copado://history/{userStoryId}\` resource.
+
+            ### 7. Environment Tools
+            Manage the friendly names that \`sourceEnvironment\` accepts.
+
+            **Usage:**
+            \`\`\`
+            Register environment dev1 as a0c8c00000LpAxEAAV
+            List environments
+            \`\`\`
+
+            - **list_environments**: Shows registered names and IDs (also available as the \`copado://environments\` resource)
+            - **register_environment**: Adds or replaces a name → Environment ID mapping; \`promotesTo\` names the
+             registered environment its promotions deploy to
+            - Deployment-wide defaults can be set with the \`COPADO_ENVIRONMENTS\` Worker variable
+            - Registrations are shared by all sessions that use the same webhook key
+
+            ### 8. Release Tools
+            Run the commit → promote → deploy chain in one call, waiting for each step's job before starting the next.
+
+            **Usage:**
+            \`\`\`
+            Release user story a1u123 from dev1 to uat
+            Resume the release
+            \`\`\`
+
+            - **release_user_stories**: Runs the chosen \`steps\` (default: promote, deploy) for \`userStoryIds\`, using
+             \`sourceEnvironment\`, \`targetEnvironment\` and, for the commit step, the same change inputs as commit_changes
+            - **resume_release**: Continues the release (default: the most recent unfinished one you started) from the step where it stopped
+            - Step state, job IDs and the produced commit, promotion and deployment IDs are saved after every step, so a
+             release can be resumed from a new connection with the same webhook key; it runs in one session at a time
+            - A failed step is retried from scratch; a job still running after \`maxWaitSeconds\` is waited on again
+            - A protected target pauses the release; resume it with the \`confirmationToken\` once the user confirms
+            - The deploy step needs the release-manager role
+
+            ### Protected Environments
+            Environments registered with \`protected: true\` (or \`{"id": "...", "protected": true}\` in \`COPADO_ENVIRONMENTS\`)
+            guard real deployments from \`deploy_promotion\` and \`promote_user_story\` with \`executeDeployment: true\`:
+            1. The first call deploys nothing and returns status \`ConfirmationRequired\` with a \`confirmation.token\`
+            2. After the user confirms, repeat the call with identical arguments plus \`confirmationToken\`
+            - Tokens are single-use, expire after 5 minutes and only approve the request they were issued for
+            - The destination is the \`promotesTo\` environment registered for the promotion's source environment; the
+             source of a promotion is recorded when promote_user_story creates it
+            - While any environment is protected, deployments whose destination is unknown (a promotion created outside
+             this server, or a source without \`promotesTo\`) are refused, as is a \`targetEnvironment\` that differs
+             from the destination
+            - Validation-only runs (\`deploymentDryRun: true\`) never need confirmation
+            - Protected registrations, and registrations that promote to a protected environment, cannot be replaced
+            - Every blocked, approved and rejected attempt is logged in the \`copado://audit/deployments\` resource
+
+            ### Retries and Idempotency Keys
+            \`commit_changes\`, \`promote_user_story\` and \`deploy_promotion\` accept an optional \`idempotencyKey\`.
+            Successful results are stored with the history, and a repeated call returns the stored result without calling Copado again.
+            - Only calls with a key are replayed; without one, every call runs, even with identical arguments
+            - The result is kept for 24 hours; reusing the key with different arguments is rejected
+            - A retry that arrives while the original call is still running waits for it, from any session of the tenant
+            - Replayed results carry \`replayed: true\` and start with a ♻️ REPLAYED line
+            - Failed and ConfirmationRequired results are not stored, so those calls can be repeated for real
+            - \`apiKey\` and \`confirmationToken\` do not count as different arguments
+
+            ### Job Callbacks
+            Instead of polling, Copado (or a local stand-in) can POST job execution updates to this session's callback URL,
+            shown by the \`copado://callback\` resource (\`/copado/callback/{token}\`). Requests must carry the
+            \`COPADO_CALLBACK_SECRET\` value in the \`X-Copado-Callback-Secret\` header. The body is a job execution record,
+            \`{"jobExecution": {...}}\`, or \`{"jobExecutionId": "...", "status": "Completed"}\`.
+            - A running wait_for_job returns as soon as a final status arrives
+            - The status is stored on the operation that started the job
+            - Clients subscribed to \`copado://jobs/{jobExecutionId}\` receive a resource-updated notification
+
+            ### Mock Mode
+            Set the \`COPADO_MOCK\` Worker variable to \`"true"\` (for example in \`.dev.vars\`) to answer every Copado call from a
+            simulated backend instead of app-api.copado.com. No webhook key is needed, and user stories, promotions, deployments
+            and job executions are kept in the storage shared by the tenant's sessions, so all tools can be demoed and tested
+            offline, and a promotion created in one session can be deployed from another.
+            - Jobs stay Not Started for \`queuedMs\` (default 2000), In Progress for \`runningMs\` (default 10000), then finish;
+             a deployment started with the promotion runs after the promotion job
+            - Any user story ID exists unless \`userStories\` lists the ones that do; unknown promotions and jobs answer 404
+            - \`failures\` injects errors: \`auth: true\` (401 on every call), \`serverErrors: 3\` (the first 3 calls answer 500),
+             \`deployments: true\` or a list of user story IDs (deployment and validation jobs fail), \`deploymentError\`
+             (their error message) and \`commits\` (user story IDs whose commit jobs fail)
+            - Example: \`{"queuedMs": 1000, "runningMs": 5000, "failures": {"deployments": ["a1u7Q000000LkSVQA0"]}}\`
+
+            ## Complete Workflow Examples
+
+            ### Full Development Cycle:
+            \`\`\`
+            I modified the AccountController class. Commit to user story a1u123, promote it, deploy to production, and check status
+            \`\`\`
+
+            **AI Execution:**
+            1. commit_changes → Commits changes to user story
+            2. promote_user_story → Creates promotion 
+            3. promote_user_story → Auto-deploys (executeDeployment: true)
+            4. wait_for_job → Waits for the deployment to finish
+
+            Or in one call: release_user_stories with steps commit, promote and deploy; resume_release if a step fails
+
+            ### Validation Workflow:
+            \`\`\`
+            Commit my apex changes to user story a1u123 and promote for validation
+            \`\`\`
+
+            **AI Execution:**
+            1. commit_changes → Commits changes
+            2. promote_user_story → Creates promotion and runs validation (deploymentDryRun: true)
+            3. check_job_status → Monitors validation
+
+            ### Staged Deployment:
+            \`\`\`
+            Commit changes to user story a1u123 and create promotion for later
+            \`\`\`
+            *Later...*
+            \`\`\`
+            Deploy the promotion
+            \`\`\`
+
+            **AI Execution:**
+            1. commit_changes → Commits changes
+            2. promote_user_story → Creates promotion only (executeDeployment: false)
+            3. deploy_promotion → Deploys when ready
+
+            ## Structured Results
+            Every tool declares an output schema and returns \`structuredContent\` next to the text summary.
+            Chain calls from those fields instead of the prose:
+            - preview_commit → \`changes\`, \`warnings\`, \`committable\`
+            - commit_changes → \`jobExecutionId\`
+            - promote_user_story → \`promotionId\`, \`deploymentJobExecutionId\`
+            - deploy_promotion → \`jobExecutionId\`
+            - release_user_stories / resume_release → \`releaseId\`, \`status\`, \`steps\`, \`promotionId\`
+            - check_job_status → \`state\`, \`finished\`, \`jobType\`, \`steps\`, \`data\`
+            - check_job_statuses → \`jobs\`, \`counts\`, \`finished\`
+
+            ## AI Intelligence Features
+
+            - **Smart Change Parsing**: Converts natural language to Copado metadata format, binding each
+             action verb to the components in its own clause ("added FooService class and deleted OldTrigger trigger"
+             commits FooService as Add and OldTrigger as Delete; "retrieve only" maps to RetrieveOnly)
+            - **Intent Detection**: Automatically sets deployment flags based on user intent
+            - **Tool Chaining**: Seamlessly chains operations in logical workflow order
+            - **Context Awareness**: Uses previous responses to chain subsequent tools
+            - **Flexible Input**: Handles various formats for user story IDs and descriptions
+
+            ## Supported Metadata Types
+
+            - ApexClass, ApexTrigger, LightningComponentBundle (LWC)
+            - Flow, CustomObject, CustomField, Layout
+            - PermissionSet, Profile, CustomLabel, ValidationRule
+            - EmailTemplate, Report, Dashboard, and more...
+
+            ## API Endpoints
+${this.endpointDocs()}
+
+            Webhook URLs come from endpoint profiles in the \`COPADO_ENDPOINTS\` Worker variable, a JSON object of
+            \`{"<profile>": {"baseUrl": "...", "apiPath": "...", "headers": {...}}}\`. Missing fields fall back to the \`default\`
+            profile, which defaults to \`https://app-api.copado.com\` and \`/json/v1/webhook/mcwebhook\`.
+            - \`COPADO_ENDPOINT_PROFILE\` picks the profile for a Worker deployment (e.g. per Wrangler environment)
+            - A connection can choose a configured profile with the \`X-Copado-Endpoint-Profile\` header or the
+             \`endpointProfile\` config value; URLs cannot be supplied by the connection itself
+            - Profile headers are sent with every call and redacted in logs; they cannot replace the webhook key
+
+            ## Authentication
+            Every request to \`/mcp\` and \`/sse\` needs an \`Authorization: Bearer <token>\` header. Tokens are configured in the
+            \`MCP_AUTH_TOKENS\` secret as a JSON object keyed by the token's SHA-256 hex hash
+            (\`{"<sha256>": {"subject": "alice@example.com", "role": "developer"}}\`). The subject is bound to the session and recorded in the
+            operation history and deployment audit; requests for the session with another caller's token are refused. Set \`MCP_ALLOW_ANONYMOUS\` to \`"true"\` only for local development.
+
+            Each token entry can carry a \`role\` that decides which tools the session sees:
+            - **read-only** (default): check_job_status, wait_for_job, list_recent_operations, list_environments, preview_commit
+            - **developer**: also commit_changes, register_environment and promote_user_story (deployments only with \`deploymentDryRun\`)
+            - **release-manager**: also deploy_promotion and promote_user_story with \`executeDeployment\`
+
+            Tools outside the role are left out of tools/list and refused when called. Anonymous sessions (authentication
+            disabled) are read-only unless \`MCP_ANONYMOUS_ROLE\` names another role. Tool annotations (\`readOnlyHint\`, \`destructiveHint\`) mark which tools change Copado.
+
+            The webhook key for each call is resolved in this order:
+            1. The key supplied when the session was opened (\`X-Copado-Api-Key\` header or \`apiKey\` config value)
+            2. The Worker's \`COPADO_API_KEY\` secret
+
+            History, environments and idempotency results are stored per webhook key, so a session works on one org.
+            An \`apiKey\` tool argument must match the session's key; open a new session to work on another org.
+
+            ## Logging
+            Logs are JSON lines for Workers observability. Every entry from a tool call carries the same \`correlationId\`.
+            Webhook keys, tokens, secrets and Authorization headers are redacted in every field. Request payloads and
+            response bodies are logged only for sessions opened with \`debug: true\` in the connection config.
+
+            ## Local Server
+            \`npm run build:local\` and \`node dist/stdio.js\` run the same tools and resources over stdio for desktop MCP clients
+            (Node.js 22.13 or later). Callbacks and resource subscriptions are Worker-only.
+            - Settings come from the environment (\`COPADO_API_KEY\`, \`COPADO_ENVIRONMENTS\`, \`COPADO_MOCK\`, \`COPADO_ENDPOINTS\`,
+              \`COPADO_ENDPOINT_PROFILE\`), then from a JSON config file: \`--config\`, \`COPADO_MCP_CONFIG\` or \`~/.copado-mcp/config.json\`
+              with \`apiKey\`, \`environments\`, \`mock\`, \`endpoints\`, \`endpointProfile\`, \`database\`, \`subject\`, \`role\` and \`debug\`
+            - History, environments, releases and job watches are kept in \`~/.copado-mcp/copado-mcp.db\` (\`COPADO_MCP_DATABASE\` or \`database\`)
+            - Operations are recorded under the OS user name; \`role\` (default release-manager) limits the tools as for a bearer token
+            - The \`copado-mcp\` CLI (\`dist/cli.js\`) runs \`commit\`, \`promote\`, \`deploy\` and \`status\` through these same tools,
+              with \`--json\` output and exit codes for CI: 0 completed, 1 failed, 2 usage, 3 not finished, 4 needs confirmation
+
+            ## Notes
+            - All tools support AI context reliance for seamless chaining
+            - Webhook key must have appropriate permissions for each operation
+            - Tools automatically detect user intent for deployment vs. validation
+            - Monitor progress through Copado org or status check tools
+            `
+          }]
+        })
+    );
+  }
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { loadLocalConfig } from "./local/config.js";
+import { openLocalSession } from "./local/localSession.js";
+
+// Local entry point for desktop MCP clients: the Worker's tools and resources over
+// stdio, with the key from COPADO_API_KEY or the config file and the history in a
+// local SQLite file. Build with `npm run build:local`, then run `node dist/stdio.js`.
+async function main() {
+  const { values } = parseArgs({ options: { config: { type: "string" } } });
+  const config = loadLocalConfig(values.config);
+  const local = await openLocalSession(config);
+
+  const server = new McpServer({
+    name: "copado-mcp",
+    version: "1.0.0",
+  });
+  local.session.register(server);
+  server.server.onclose = () => local.close();
+
+  await server.connect(new StdioServerTransport());
+  local.session.logger.info("Copado MCP server running on stdio", { config: config.path, database: config.database });
+}
+
+main().catch((error) => {
+  process.stderr.write(`copado-mcp: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
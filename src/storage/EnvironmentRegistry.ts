@@ -0,0 +1,229 @@
+import type { SharedSqlTag } from "./sql.js";
+
+export interface Environment {
+  /** Friendly name, e.g. "dev1" or "qa" */
+  name: string;
+  /** Salesforce ID of the copado__Environment__c record */
+  environmentId: string;
+  description?: string;
+  /** Deployments to a protected environment need explicit confirmation */
+  protected: boolean;
+  /** Registered name of the environment promotions from this one deploy to */
+  promotesTo?: string;
+  registeredAt: string;
+}
+
+// Deployment-wide default: an environment ID, or an object that can also mark it protected
+export type EnvironmentSeed = string | { id: string; description?: string; protected?: boolean; promotesTo?: string };
+
+interface EnvironmentRow {
+  name: string;
+  environment_id: string;
+  description: string | null;
+  protected: number;
+  promotes_to: string | null;
+  registered_at: string;
+}
+
+// 15 or 18 character Salesforce record ID
+const SALESFORCE_ID = /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/;
+
+export function isSalesforceId(value: string): boolean {
+  return SALESFORCE_ID.test(value);
+}
+
+function toEnvironment(row: EnvironmentRow): Environment {
+  return {
+    name: row.name,
+    environmentId: row.environment_id,
+    description: row.description ?? undefined,
+    protected: row.protected === 1,
+    promotesTo: row.promotes_to ?? undefined,
+    registeredAt: row.registered_at,
+  };
+}
+
+// Maps friendly environment names to Copado environment IDs. Backed by the
+// tenant's shared storage, so every session of the tenant sees the same names.
+export class EnvironmentRegistry {
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly sql: SharedSqlTag) {
+    this.ready = this.migrate();
+  }
+
+  private async migrate(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_environments (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        environment_id TEXT NOT NULL,
+        description TEXT,
+        protected INTEGER NOT NULL DEFAULT 0,
+        promotes_to TEXT,
+        registered_at TEXT NOT NULL
+      )
+    `;
+    // Sessions created before environments could be protected, or mapped to a
+    // destination, lack the columns
+    const columns = await this.sql<{ name: string }>`PRAGMA table_info(copado_environments)`;
+    if (!columns.some(column => column.name === 'protected')) {
+      await this.sql`ALTER TABLE copado_environments ADD COLUMN protected INTEGER NOT NULL DEFAULT 0`;
+    }
+    if (!columns.some(column => column.name === 'promotes_to')) {
+      await this.sql`ALTER TABLE copado_environments ADD COLUMN promotes_to TEXT`;
+    }
+  }
+
+  async list(): Promise<Environment[]> {
+    await this.ready;
+    const rows = await this.sql<EnvironmentRow>`
+      SELECT * FROM copado_environments ORDER BY name
+    `;
+    return rows.map(toEnvironment);
+  }
+
+  async get(name: string): Promise<Environment | undefined> {
+    await this.ready;
+    const [row] = await this.sql<EnvironmentRow>`
+      SELECT * FROM copado_environments WHERE name = ${name.trim()}
+    `;
+    return row ? toEnvironment(row) : undefined;
+  }
+
+  // Add or replace an environment under the given name. Protected environments,
+  // and environments that promote to one, cannot be replaced, so a session cannot
+  // lift protection by re-registering.
+  async register(
+    name: string,
+    environmentId: string,
+    description?: string,
+    isProtected = false,
+    promotesTo?: string
+  ): Promise<Environment> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error("Environment name must not be empty.");
+    }
+    if (!isSalesforceId(environmentId)) {
+      throw new Error(`"${environmentId}" is not a valid Salesforce ID (expected 15 or 18 alphanumeric characters).`);
+    }
+    const existing = await this.get(trimmedName);
+    if (existing?.protected) {
+      throw new Error(`Environment "${trimmedName}" is protected and cannot be replaced.`);
+    }
+    const currentDestination = existing?.promotesTo ? await this.find(existing.promotesTo) : undefined;
+    if (currentDestination?.protected) {
+      throw new Error(`Environment "${trimmedName}" promotes to protected environment ${currentDestination.name} and cannot be replaced.`);
+    }
+    const destination = promotesTo?.trim() ? await this.find(promotesTo) : undefined;
+    if (promotesTo?.trim() && !destination) {
+      throw new Error(`"${promotesTo.trim()}" is not a registered environment; register the destination first.`);
+    }
+
+    const registeredAt = new Date().toISOString();
+    await this.sql`
+      INSERT OR REPLACE INTO copado_environments (name, environment_id, description, protected, promotes_to, registered_at)
+      VALUES (
+        ${trimmedName}, ${environmentId}, ${description ?? null}, ${isProtected ? 1 : 0},
+        ${destination?.name ?? null}, ${registeredAt}
+      )
+    `;
+    return { name: trimmedName, environmentId, description, protected: isProtected, promotesTo: destination?.name, registeredAt };
+  }
+
+  // Register deployment-wide defaults without overwriting names the session already
+  // set. Protected defaults and defaults with a destination always win, so neither
+  // the protection nor the route to a protected environment can be shadowed.
+  async seed(environments: Record<string, EnvironmentSeed>): Promise<void> {
+    await this.ready;
+    const registeredAt = new Date().toISOString();
+    for (const [name, seed] of Object.entries(environments)) {
+      const { id, description, protected: isProtected, promotesTo } = typeof seed === 'string' ? { id: seed } : seed;
+      if (!isSalesforceId(id)) {
+        continue;
+      }
+      if (isProtected || promotesTo) {
+        await this.sql`
+          INSERT OR REPLACE INTO copado_environments (name, environment_id, description, protected, promotes_to, registered_at)
+          VALUES (${name}, ${id}, ${description ?? null}, ${isProtected ? 1 : 0}, ${promotesTo ?? null}, ${registeredAt})
+        `;
+      } else {
+        await this.sql`
+          INSERT OR IGNORE INTO copado_environments (name, environment_id, description, protected, registered_at)
+          VALUES (${name}, ${id}, ${description ?? null}, ${0}, ${registeredAt})
+        `;
+      }
+    }
+  }
+
+  // Whether the environment ID is registered as protected under any name. The
+  // 15 and 18 character forms of an ID name the same record.
+  async isProtected(environmentId: string): Promise<boolean> {
+    await this.ready;
+    const [row] = await this.sql<{ id: string }>`
+      SELECT environment_id AS id FROM copado_environments
+      WHERE substr(environment_id, 1, 15) = ${environmentId.trim().slice(0, 15)} AND protected = 1
+      LIMIT 1
+    `;
+    return row !== undefined;
+  }
+
+  // The registration a name or Salesforce ID refers to, or undefined when it is
+  // neither a registered name nor the ID of a registered environment
+  async find(nameOrId: string): Promise<Environment | undefined> {
+    const value = nameOrId.trim();
+    const byName = await this.get(value);
+    if (byName || !isSalesforceId(value)) {
+      return byName;
+    }
+    const matches = (await this.list())
+      .filter(environment => environment.environmentId.slice(0, 15) === value.slice(0, 15));
+    return matches.find(environment => environment.protected) ?? matches[0];
+  }
+
+  // The environment promotions from the given source environment deploy to, or
+  // undefined when no registration of the source names a registered destination.
+  // Should registrations of the same ID disagree, a protected destination wins.
+  async destinationOf(sourceEnvironmentId: string): Promise<Environment | undefined> {
+    const sources = (await this.list())
+      .filter(environment => environment.environmentId.slice(0, 15) === sourceEnvironmentId.trim().slice(0, 15));
+    const destinations: Environment[] = [];
+    for (const source of sources) {
+      const destination = source.promotesTo ? await this.find(source.promotesTo) : undefined;
+      if (destination) {
+        destinations.push(destination);
+      }
+    }
+    return destinations.find(environment => environment.protected) ?? destinations[0];
+  }
+
+  // The environment promotions start from when the caller names none: the only
+  // unprotected registered environment, or undefined when that is ambiguous
+  async defaultSource(): Promise<Environment | undefined> {
+    const candidates = (await this.list()).filter(environment => !environment.protected);
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  // Resolve a friendly name or Salesforce ID to a Copado environment ID.
+  // Registered names win; unregistered Salesforce IDs are passed through.
+  async resolve(nameOrId: string): Promise<string> {
+    await this.ready;
+    const value = nameOrId.trim();
+    const [byName] = await this.sql<EnvironmentRow>`
+      SELECT * FROM copado_environments WHERE name = ${value}
+    `;
+    if (byName) {
+      return byName.environment_id;
+    }
+    if (isSalesforceId(value)) {
+      return value;
+    }
+
+    const known = (await this.list()).map(environment => environment.name);
+    throw new Error(
+      `Unknown environment "${value}". ${known.length > 0
+        ? `Registered environments: ${known.join(', ')}.`
+        : 'No environments are registered yet; use register_environment first.'}`
+    );
+  }
+}
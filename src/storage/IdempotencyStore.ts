@@ -0,0 +1,162 @@
+import { hashToken } from "../auth/bearerTokens.js";
+import { CopadoTransientError, CopadoValidationError } from "../copado/errors.js";
+import type { SharedSqlTag } from "./sql.js";
+
+export interface IdempotentResult<T> {
+  result: T;
+  /** True when the stored result of an earlier call was returned */
+  replayed: boolean;
+  /** Caller-supplied idempotency key; undefined when the call was not deduplicated */
+  key?: string;
+  /** When the replayed result was stored */
+  storedAt?: string;
+}
+
+interface IdempotencyRow {
+  key: string;
+  fingerprint: string;
+  result: string;
+  created_at: string;
+  pending: number;
+}
+
+// Results stored under a caller-supplied key are kept for a day
+export const EXPLICIT_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A claim whose call never finished (e.g. the isolate was evicted) lapses after this
+export const PENDING_CLAIM_MS = 5 * 60 * 1000;
+
+// How long a repeated call waits for the original one, which may run in another isolate
+const PENDING_WAIT_MS = 30 * 1000;
+const PENDING_POLL_MS = 500;
+
+// Arguments that do not change what the call does; a retry after confirming a
+// deployment sends the same confirmation token again
+const IGNORED_ARGUMENTS = new Set(['apiKey', 'idempotencyKey', 'confirmationToken']);
+
+// JSON with sorted keys, so argument order does not change the fingerprint
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalJson(entryValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Stores the results of mutating tool calls made with an idempotencyKey, so a
+// client retrying after a timeout gets the original result instead of a second
+// commit, promotion or deployment. Calls without a key always run. The key is
+// claimed in the tenant's shared storage before Copado is called, so a retry
+// arriving at another session or isolate waits for the original call.
+export class IdempotencyStore {
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly sql: SharedSqlTag) {
+    this.ready = this.migrate();
+  }
+
+  private async migrate(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_idempotency (
+        key TEXT PRIMARY KEY,
+        tool TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        pending INTEGER NOT NULL DEFAULT 0
+      )
+    `;
+    // Stores created before keys were claimed up front lack the column
+    const columns = await this.sql<{ name: string }>`PRAGMA table_info(copado_idempotency)`;
+    if (!columns.some(column => column.name === 'pending')) {
+      await this.sql`ALTER TABLE copado_idempotency ADD COLUMN pending INTEGER NOT NULL DEFAULT 0`;
+    }
+  }
+
+  // Run execute once per key. Only results accepted by shouldStore are kept, so
+  // failed calls can be retried for real.
+  async run<T>(
+    tool: string,
+    args: Record<string, unknown>,
+    execute: () => Promise<T>,
+    shouldStore: (result: T) => boolean
+  ): Promise<IdempotentResult<T>> {
+    const idempotencyKey = typeof args.idempotencyKey === 'string' && args.idempotencyKey.trim()
+      ? args.idempotencyKey.trim()
+      : undefined;
+    if (!idempotencyKey) {
+      return { result: await execute(), replayed: false };
+    }
+    const key = `${tool}:${idempotencyKey}`;
+    const fingerprint = await hashToken(canonicalJson({
+      tool,
+      args: Object.fromEntries(Object.entries(args).filter(([name]) => !IGNORED_ARGUMENTS.has(name))),
+    }));
+
+    await this.ready;
+    const waitUntil = Date.now() + PENDING_WAIT_MS;
+    for (;;) {
+      if (await this.claim(key, tool, fingerprint)) {
+        break;
+      }
+      const [stored] = await this.sql<IdempotencyRow>`
+        SELECT key, fingerprint, result, created_at, pending FROM copado_idempotency WHERE key = ${key}
+      `;
+      if (stored && stored.fingerprint !== fingerprint) {
+        throw new CopadoValidationError(
+          `idempotencyKey "${idempotencyKey}" was already used for a different ${tool} request. Use a new key for new requests.`
+        );
+      }
+      if (stored && !stored.pending) {
+        return { result: JSON.parse(stored.result) as T, replayed: true, key: idempotencyKey, storedAt: stored.created_at };
+      }
+      if (stored && Date.now() >= waitUntil) {
+        throw new CopadoTransientError(
+          `The ${tool} call with idempotencyKey "${idempotencyKey}" is still running. Retry with the same key shortly to get its result.`
+        );
+      }
+      // Still running elsewhere, or its claim was just released: look again
+      await new Promise(resolve => setTimeout(resolve, stored ? PENDING_POLL_MS : 0));
+    }
+
+    let kept = false;
+    try {
+      const result = await execute();
+      if (shouldStore(result)) {
+        await this.sql`
+          UPDATE copado_idempotency
+          SET result = ${JSON.stringify(result)}, pending = 0, created_at = ${new Date().toISOString()},
+              expires_at = ${Date.now() + EXPLICIT_KEY_TTL_MS}
+          WHERE key = ${key}
+        `;
+        kept = true;
+      }
+      return { result, replayed: false, key: idempotencyKey };
+    } finally {
+      if (!kept) {
+        await this.sql`DELETE FROM copado_idempotency WHERE key = ${key} AND pending = 1`;
+      }
+    }
+  }
+
+  // Insert a pending row for the key; false when another call holds or stored it
+  private async claim(key: string, tool: string, fingerprint: string): Promise<boolean> {
+    const now = Date.now();
+    await this.sql`
+      DELETE FROM copado_idempotency WHERE expires_at < ${now}
+    `;
+    const claimed = await this.sql<{ key: string }>`
+      INSERT INTO copado_idempotency (key, tool, fingerprint, result, created_at, expires_at, pending)
+      VALUES (${key}, ${tool}, ${fingerprint}, ${''}, ${new Date(now).toISOString()}, ${now + PENDING_CLAIM_MS}, ${1})
+      ON CONFLICT (key) DO NOTHING
+      RETURNING key
+    `;
+    return claimed.length > 0;
+  }
+}
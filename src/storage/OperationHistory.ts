@@ -0,0 +1,191 @@
+import type { SharedSqlTag } from "./sql.js";
+
+export interface OperationRecord {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+  tool: string;
+  /** Authenticated subject that ran the tool */
+  actor?: string;
+  userStoryIds: string[];
+  promotionId?: string;
+  jobExecutionIds: string[];
+  changes?: unknown[];
+  status?: string;
+  error?: string;
+}
+
+export type NewOperation = Omit<OperationRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface OperationFilter {
+  userStoryId?: string;
+  promotionId?: string;
+  jobExecutionId?: string;
+  status?: string;
+  limit?: number;
+}
+
+interface OperationRow {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  tool: string;
+  actor: string | null;
+  user_story_ids: string;
+  promotion_id: string | null;
+  job_execution_ids: string;
+  changes: string | null;
+  status: string | null;
+  error: string | null;
+}
+
+// Tools (and Copado callbacks) that report on an existing job rather than starting a new operation
+const STATUS_TOOLS = new Set(['check_job_status', 'wait_for_job', 'copado_callback']);
+
+function toRecord(row: OperationRow): OperationRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    tool: row.tool,
+    actor: row.actor ?? undefined,
+    userStoryIds: JSON.parse(row.user_story_ids),
+    promotionId: row.promotion_id ?? undefined,
+    jobExecutionIds: JSON.parse(row.job_execution_ids),
+    changes: row.changes ? JSON.parse(row.changes) : undefined,
+    status: row.status ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+function stringField(structured: Record<string, unknown>, key: string): string | undefined {
+  const value = structured[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Build a history entry from a tool's structuredContent
+export function operationFromResult(tool: string, structured: Record<string, unknown>, actor?: string): NewOperation {
+  const userStoryIds = new Set<string>();
+  if (Array.isArray(structured.userStoryIds)) {
+    for (const id of structured.userStoryIds) {
+      userStoryIds.add(String(id));
+    }
+  }
+  const userStoryId = stringField(structured, 'userStoryId');
+  if (userStoryId) {
+    userStoryIds.add(userStoryId);
+  }
+
+  const jobExecutionIds = ['jobExecutionId', 'promotionJobExecutionId', 'deploymentJobExecutionId']
+    .map(key => stringField(structured, key))
+    .filter((id): id is string => id !== undefined);
+
+  const error = structured.error as { message?: string } | undefined;
+
+  return {
+    tool,
+    actor,
+    userStoryIds: [...userStoryIds],
+    promotionId: stringField(structured, 'promotionId'),
+    jobExecutionIds,
+    changes: Array.isArray(structured.changes) ? structured.changes : undefined,
+    status: error ? 'Error' : stringField(structured, 'status'),
+    error: error?.message ?? stringField(structured, 'errorMessage'),
+  };
+}
+
+// Record of every Copado operation run by the tenant's sessions, so past commits,
+// promotions and deployments can be looked up later, from any connection.
+export class OperationHistory {
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly sql: SharedSqlTag) {
+    this.ready = this.migrate();
+  }
+
+  private async migrate(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_operations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        actor TEXT,
+        user_story_ids TEXT NOT NULL,
+        promotion_id TEXT,
+        job_execution_ids TEXT NOT NULL,
+        changes TEXT,
+        status TEXT,
+        error TEXT
+      )
+    `;
+    // Histories created before callers were authenticated lack the column
+    const columns = await this.sql<{ name: string }>`PRAGMA table_info(copado_operations)`;
+    if (!columns.some(column => column.name === 'actor')) {
+      await this.sql`ALTER TABLE copado_operations ADD COLUMN actor TEXT`;
+    }
+  }
+
+  async record(operation: NewOperation): Promise<OperationRecord> {
+    await this.ready;
+    const now = new Date().toISOString();
+    const [row] = await this.sql<OperationRow>`
+      INSERT INTO copado_operations
+        (created_at, updated_at, tool, actor, user_story_ids, promotion_id, job_execution_ids, changes, status, error)
+      VALUES (
+        ${now}, ${now}, ${operation.tool}, ${operation.actor ?? null}, ${JSON.stringify(operation.userStoryIds)},
+        ${operation.promotionId ?? null}, ${JSON.stringify(operation.jobExecutionIds)},
+        ${operation.changes ? JSON.stringify(operation.changes) : null},
+        ${operation.status ?? null}, ${operation.error ?? null}
+      )
+      RETURNING *
+    `;
+    return toRecord(row);
+  }
+
+  // Record a tool result. Status checks update the operation that started the
+  // job; everything else (or a status check for an unknown job) is a new entry.
+  async recordToolResult(tool: string, structured: Record<string, unknown> | undefined, actor?: string): Promise<void> {
+    if (!structured) {
+      return;
+    }
+    const operation = operationFromResult(tool, structured, actor);
+
+    if (STATUS_TOOLS.has(tool) && !structured.error) {
+      const [jobExecutionId] = operation.jobExecutionIds;
+      if (jobExecutionId && await this.updateJobStatus(jobExecutionId, operation.status ?? 'Unknown', operation.error) > 0) {
+        return;
+      }
+    }
+    await this.record(operation);
+  }
+
+  // Set the latest status on every operation that produced the given job
+  async updateJobStatus(jobExecutionId: string, status: string, error?: string): Promise<number> {
+    await this.ready;
+    const updated = await this.sql<{ id: number }>`
+      UPDATE copado_operations
+      SET status = ${status}, error = COALESCE(${error ?? null}, error), updated_at = ${new Date().toISOString()}
+      WHERE EXISTS (SELECT 1 FROM json_each(job_execution_ids) WHERE value = ${jobExecutionId})
+      RETURNING id
+    `;
+    return updated.length;
+  }
+
+  async list(filter: OperationFilter = {}): Promise<OperationRecord[]> {
+    await this.ready;
+    const limit = Math.min(Math.max(filter.limit ?? 20, 1), 200);
+    const rows = await this.sql<OperationRow>`
+      SELECT * FROM copado_operations
+      WHERE (${filter.userStoryId ?? null} IS NULL
+          OR EXISTS (SELECT 1 FROM json_each(user_story_ids) WHERE value = ${filter.userStoryId ?? null}))
+        AND (${filter.promotionId ?? null} IS NULL OR promotion_id = ${filter.promotionId ?? null})
+        AND (${filter.jobExecutionId ?? null} IS NULL
+          OR EXISTS (SELECT 1 FROM json_each(job_execution_ids) WHERE value = ${filter.jobExecutionId ?? null}))
+        AND (${filter.status ?? null} IS NULL OR status = ${filter.status ?? null} COLLATE NOCASE)
+      ORDER BY id DESC
+      LIMIT ${limit}
+    `;
+    return rows.map(toRecord);
+  }
+}
@@ -0,0 +1,185 @@
+import type { ChangeInput } from "../tools/CommitTool.js";
+import type { CommitAction } from "../copado/models.js";
+import type { SharedSqlTag } from "./sql.js";
+
+// Steps of the commit → promote → deploy chain, in the order they run
+export const RELEASE_STEPS = ['commit', 'promote', 'deploy'] as const;
+
+export type ReleaseStepName = typeof RELEASE_STEPS[number];
+
+// waiting: the step's job was still running when the wait ended
+// confirmation-required: the deployment is held until the user confirms it
+export type StepStatus = 'pending' | 'running' | 'waiting' | 'confirmation-required' | 'completed' | 'failed';
+
+export type ReleaseStatus = 'running' | 'paused' | 'failed' | 'completed';
+
+export interface ReleaseStep {
+  name: ReleaseStepName;
+  status: StepStatus;
+  /** Job started by the step; a resumed step keeps waiting on it */
+  jobExecutionId?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+// Everything needed to run (or resume) the release, except the webhook key
+export interface ReleasePlan {
+  userStoryIds: string[];
+  sourceEnvironment?: string;
+  targetEnvironment?: string;
+  commit?: {
+    changesDescription?: string;
+    changes?: ChangeInput[];
+    sourcePaths?: string[];
+    packageXml?: string;
+    gitDiff?: string;
+    sourceAction?: CommitAction;
+    commitMessage?: string;
+  };
+}
+
+// IDs produced by the steps so far
+export interface ReleaseOutputs {
+  commitId?: string;
+  promotionId?: string;
+  deploymentId?: string;
+}
+
+export interface Release {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Authenticated subject that started the release */
+  actor?: string;
+  status: ReleaseStatus;
+  currentStep?: ReleaseStepName;
+  plan: ReleasePlan;
+  steps: ReleaseStep[];
+  outputs: ReleaseOutputs;
+}
+
+interface ReleaseRow {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  actor: string | null;
+  status: ReleaseStatus;
+  current_step: ReleaseStepName | null;
+  plan: string;
+  steps: string;
+  outputs: string;
+  locked_until: number | null;
+}
+
+function toRelease(row: ReleaseRow): Release {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    actor: row.actor ?? undefined,
+    status: row.status,
+    currentStep: row.current_step ?? undefined,
+    plan: JSON.parse(row.plan),
+    steps: JSON.parse(row.steps),
+    outputs: JSON.parse(row.outputs),
+  };
+}
+
+// Step state of every release run by the tenant's sessions, saved after each
+// transition so a failed or interrupted release can continue where it stopped,
+// from the same connection or a new one.
+export class ReleaseStore {
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly sql: SharedSqlTag) {
+    this.ready = this.migrate();
+  }
+
+  private async migrate(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS copado_releases (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        actor TEXT,
+        status TEXT NOT NULL,
+        current_step TEXT,
+        plan TEXT NOT NULL,
+        steps TEXT NOT NULL,
+        outputs TEXT NOT NULL,
+        locked_until INTEGER
+      )
+    `;
+    // Releases saved before they could be resumed from other sessions lack the column
+    const columns = await this.sql<{ name: string }>`PRAGMA table_info(copado_releases)`;
+    if (!columns.some(column => column.name === 'locked_until')) {
+      await this.sql`ALTER TABLE copado_releases ADD COLUMN locked_until INTEGER`;
+    }
+  }
+
+  async create(plan: ReleasePlan, steps: ReleaseStepName[], outputs: ReleaseOutputs, actor?: string): Promise<Release> {
+    await this.ready;
+    const now = new Date().toISOString();
+    const ordered = RELEASE_STEPS.filter(step => steps.includes(step));
+    const [row] = await this.sql<ReleaseRow>`
+      INSERT INTO copado_releases (id, created_at, updated_at, actor, status, current_step, plan, steps, outputs)
+      VALUES (
+        ${crypto.randomUUID()}, ${now}, ${now}, ${actor ?? null}, ${'running'}, ${ordered[0] ?? null},
+        ${JSON.stringify(plan)}, ${JSON.stringify(ordered.map(name => ({ name, status: 'pending' })))},
+        ${JSON.stringify(outputs)}
+      )
+      RETURNING *
+    `;
+    return toRelease(row);
+  }
+
+  async get(id: string): Promise<Release | undefined> {
+    await this.ready;
+    const [row] = await this.sql<ReleaseRow>`SELECT * FROM copado_releases WHERE id = ${id}`;
+    return row ? toRelease(row) : undefined;
+  }
+
+  // Most recent release the actor started that stopped before finishing. Releases
+  // are shared by the tenant, so one caller never picks up another's by default.
+  async latestUnfinished(actor?: string): Promise<Release | undefined> {
+    await this.ready;
+    const [row] = await this.sql<ReleaseRow>`
+      SELECT * FROM copado_releases
+      WHERE status != ${'completed'} AND actor IS ${actor ?? null}
+      ORDER BY created_at DESC LIMIT 1
+    `;
+    return row ? toRelease(row) : undefined;
+  }
+
+  // Persist the release's status, steps and outputs after a transition
+  async save(release: Release): Promise<void> {
+    await this.ready;
+    release.updatedAt = new Date().toISOString();
+    await this.sql`
+      UPDATE copado_releases
+      SET updated_at = ${release.updatedAt}, status = ${release.status},
+          current_step = ${release.currentStep ?? null}, steps = ${JSON.stringify(release.steps)},
+          outputs = ${JSON.stringify(release.outputs)}
+      WHERE id = ${release.id}
+    `;
+  }
+
+  // Mark a release as running for up to leaseMs; false if another run holds it.
+  // The lease outlives a session that disappears mid-run only until it expires.
+  async acquire(id: string, leaseMs: number): Promise<boolean> {
+    await this.ready;
+    const now = Date.now();
+    const locked = await this.sql<{ id: string }>`
+      UPDATE copado_releases SET locked_until = ${now + leaseMs}
+      WHERE id = ${id} AND (locked_until IS NULL OR locked_until < ${now})
+      RETURNING id
+    `;
+    return locked.length > 0;
+  }
+
+  async relinquish(id: string): Promise<void> {
+    await this.ready;
+    await this.sql`UPDATE copado_releases SET locked_until = NULL WHERE id = ${id}`;
+  }
+}
@@ -0,0 +1,30 @@
+import { DurableObject } from "cloudflare:workers";
+import { hashToken } from "../auth/bearerTokens.js";
+import type { SharedSqlTag, SqlValue } from "./sql.js";
+
+// Durable Object holding the state every session of one tenant shares: environment
+// registry, operation history, idempotency results, releases, the deployment audit
+// and, in mock mode, the simulated org.
+// Sessions send it SQL; the stores themselves run in the session.
+export class CopadoSharedStorage extends DurableObject {
+  query(query: string, values: SqlValue[]): Record<string, SqlValue>[] {
+    return this.ctx.storage.sql.exec<Record<string, SqlValue>>(query, ...values).toArray();
+  }
+}
+
+// Sessions with the same webhook key work on the same Copado org and share one
+// storage object. It is named after a hash, so the key itself is never stored.
+export async function tenantName(apiKey: string | undefined): Promise<string> {
+  return apiKey ? `key:${await hashToken(apiKey)}` : 'default';
+}
+
+export function sharedStorageSql(
+  namespace: DurableObjectNamespace<CopadoSharedStorage>,
+  tenant: Promise<string>
+): SharedSqlTag {
+  const storage = tenant.then(name => namespace.get(namespace.idFromName(name)));
+  return async <T>(strings: TemplateStringsArray, ...values: SqlValue[]) => {
+    const rows = await (await storage).query(strings.join('?'), values);
+    return rows as unknown as T[];
+  };
+}
@@ -0,0 +1,28 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import type { SqlTag, SqlValue } from "./sql.js";
+
+export interface SqliteDatabase {
+  sql: SqlTag;
+  close(): void;
+}
+
+// Open a local SQLite file (or ":memory:") behind the same tagged-template API
+// the Durable Object exposes, so the stores run unchanged outside the Worker.
+// Needs Node.js 22.13 or later for node:sqlite.
+export function openSqlite(path: string): SqliteDatabase {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new DatabaseSync(path);
+  // Several processes (stdio server, CLI) may share one history file
+  db.exec('PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;');
+
+  const sql = (<T = Record<string, SqlValue>>(strings: TemplateStringsArray, ...values: SqlValue[]): T[] => {
+    const query = strings.reduce((text, part, index) => text + part + (index < values.length ? '?' : ''), '');
+    return db.prepare(query).all(...values) as T[];
+  }) as SqlTag;
+
+  return { sql, close: () => db.close() };
+}
@@ -0,0 +1,21 @@
+// Values accepted as bound parameters by the Durable Object SQLite API
+export type SqlValue = string | number | null;
+
+// Tagged-template SQL executor, the shape McpAgent#sql exposes. Stores take one
+// of these so they do not depend on the Durable Object directly.
+export type SqlTag = <T = Record<string, SqlValue>>(
+  strings: TemplateStringsArray,
+  ...values: SqlValue[]
+) => T[];
+
+// Executor for storage shared between sessions, which lives outside the session's
+// own database (a Durable Object per tenant in the Worker, the SQLite file locally)
+export type SharedSqlTag = <T = Record<string, SqlValue>>(
+  strings: TemplateStringsArray,
+  ...values: SqlValue[]
+) => Promise<T[]>;
+
+// Shared storage over a database the host already has open, e.g. the local SQLite file
+export function sharedSql(sql: SqlTag): SharedSqlTag {
+  return async (strings, ...values) => sql(strings, ...values);
+}
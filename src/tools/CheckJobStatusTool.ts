@@ -1,95 +1,110 @@
 import { z } from "zod";
+import { analyzeDeploymentFailure, FAILURE_CATEGORIES, type DeploymentFailureAnalysis } from "../copado/deploymentErrors.js";
+import { describeJob, JOB_TYPES, type JobType } from "../copado/jobDetails.js";
+import { JOB_STATES, type JobState } from "../copado/jobStatus.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { jobDataSchema, jobStepSchema, toolErrorSchema, toToolError } from "./ToolResult.js";
 
 export interface CheckJobStatusInput {
   jobExecutionId: string;
   apiKey?: string;
 }
 
+const TYPE_LABEL: Record<JobType, string> = {
+  commit: 'Commit',
+  promotion: 'Promotion',
+  deployment: 'Deployment',
+  validation: 'Validation',
+  unknown: 'Job'
+};
+
+// What to do once a job of each type has completed
+const COMPLETED_NEXT_STEPS: Record<JobType, string> = {
+  commit: '🎉 Commit completed! Promote the user story when it is ready.',
+  promotion: '🎉 Promotion completed! Deploy it with deploy_promotion.',
+  deployment: '🎉 Deployment completed successfully! Check your destination org.',
+  validation: '🎉 Validation passed! Deploy the promotion when ready.',
+  unknown: '🎉 Job completed successfully!'
+};
+
+const STEP_EMOJI: Record<JobState, string> = {
+  'queued': '⏳',
+  'in-progress': '🔄',
+  'completed': '✅',
+  'failed': '❌',
+  'cancelled': '🚫',
+  'unknown': '❔'
+};
+
+// Failures grouped by category with the fix to try, then each failing component and test
+function formatFailureAnalysis(analysis: DeploymentFailureAnalysis): string {
+  const categories = analysis.categories.map(category =>
+    `• **${category.label}** (${category.count}): ${category.items.join(', ')}\n  💡 ${category.suggestion}`
+  );
+  const components = analysis.componentFailures.map(failure => {
+    const position = failure.line !== undefined ? ` line ${failure.line}${failure.column !== undefined ? `:${failure.column}` : ''}` : '';
+    return `• ${failure.type ? `${failure.type} ` : ''}${failure.name}${position} – ${failure.problem}`;
+  });
+  const tests = analysis.testFailures.map(failure =>
+    `• ${failure.className}.${failure.methodName} – ${failure.message}`
+  );
+
+  return [
+    `🔬 **FAILURE ANALYSIS:**\n${categories.join('\n')}`,
+    components.length > 0 ? `🧩 **Component Failures:**\n${components.join('\n')}` : '',
+    tests.length > 0 ? `🧪 **Test Failures:**\n${tests.join('\n')}` : ''
+  ].filter(Boolean).join('\n\n');
+}
+
 export const checkJobStatusTool = {
   name: "check_job_status",
   description: "Check the status of a Copado job execution",
+  annotations: { readOnlyHint: true, openWorldHint: true },
   
-  async execute({ jobExecutionId, apiKey }: CheckJobStatusInput) {
+  async execute({ jobExecutionId, apiKey }: CheckJobStatusInput, context: ToolContext) {
     try {
-      // Use provided API key or fall back to environment variable
-      const authToken = process.env.COPADO_API_KEY;
-      
-      if (!authToken) {
-        throw new Error("API key is required. Provide it as a parameter or set COPADO_API_KEY environment variable.");
-      }
-
-      // Use Copado's job status endpoint (example - adjust based on actual API)
-      const statusUrl = `https://app-api.copado.com/json/v1/webhook/mcwebhook/checkStatusAction`;
-      
-      const payload = {
-        action: "CheckStatusAction",
-        key: authToken,
-        payload: {
-          jobexecutionid: jobExecutionId
-        }
-      };
-
-      console.log('🔍 Checking job status:');
-      console.log('Job Execution ID:', jobExecutionId);
-
-      const response = await fetch(statusUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'copado-webhook-key': authToken,
-          'User-Agent': 'Copado-MCP-Server/1.0.0'
-        },
-        body: JSON.stringify(payload)
-      });
+      // Resolve the key: session key, then Worker secret; an argument must match it
+      const client = createClient(context, apiKey);
 
-      console.log('📥 Status check response:', response.status, response.statusText);
-      
-      const responseText = await response.text();
-      console.log('📥 Status response body:', responseText);
-
-      if (!response.ok) {
-        throw new Error(`Copado status check failed: ${response.status} ${response.statusText}. Response: ${responseText}`);
-      }
+      const { jobExecution } = await client.checkStatus(jobExecutionId);
 
-      let result;
-      try {
-        result = JSON.parse(responseText);
-      } catch (parseError) {
-        result = { message: responseText };
-      }
+      const job = describeJob(jobExecution);
+      const { status, state, startTime, endTime, errorMessage, finished } = job;
+      const label = TYPE_LABEL[job.type];
 
-      // Extract status information (adjust based on actual response format)
-      const jobExecution = result.jobExecution || result;
-      const status = jobExecution['copado__Status__c'] || jobExecution.status || 'Unknown';
-      const startTime = jobExecution['CreatedDate'] || jobExecution.startTime;
-      const endTime = jobExecution['LastModifiedDate'] || jobExecution.endTime;
-      const errorMessage = jobExecution['copado__ErrorMessage__c'] || jobExecution.errorMessage;
+      // Per-component and per-test breakdown of whatever the failed job reported
+      const failureAnalysis = state === 'failed'
+        ? analyzeDeploymentFailure(errorMessage, ...job.steps.map(step => step.errorMessage))
+        : undefined;
 
       // Determine status emoji and next steps
       let statusEmoji = '⏳';
       let statusColor = 'YELLOW';
       let nextSteps = '';
 
-      switch (status.toLowerCase()) {
+      switch (state) {
         case 'completed':
-        case 'success':
           statusEmoji = '✅';
           statusColor = 'GREEN';
-          nextSteps = '🎉 Deployment completed successfully! Check your destination org.';
+          nextSteps = COMPLETED_NEXT_STEPS[job.type];
           break;
         case 'failed':
-        case 'error':
           statusEmoji = '❌';
           statusColor = 'RED';
-          nextSteps = '🔍 Check the error details and retry if needed.';
+          nextSteps = failureAnalysis?.categories.length
+            ? '🔍 Fix the failures listed above using the suggestion for each category, commit the fixes and retry.'
+            : '🔍 Check the error details and retry if needed.';
           break;
-        case 'in progress':
-        case 'running':
+        case 'cancelled':
+          statusEmoji = '🚫';
+          statusColor = 'ORANGE';
+          nextSteps = `🛑 The ${label.toLowerCase()} was cancelled. Start it again if it is still needed.`;
+          break;
+        case 'in-progress':
           statusEmoji = '🔄';
           statusColor = 'BLUE';
-          nextSteps = '⏰ Deployment is still running. Check again in a few minutes.';
+          nextSteps = `⏰ ${label} is still running. Check again in a few minutes.`;
           break;
-        case 'not started':
         case 'queued':
           statusEmoji = '⏳';
           statusColor = 'YELLOW';
@@ -98,33 +113,72 @@ export const checkJobStatusTool = {
         default:
           statusEmoji = '❔';
           statusColor = 'GRAY';
-          nextSteps = '🔍 Unknown status. Check Copado org for details.';
+          nextSteps = `🔍 Unrecognized status "${status}". Check Copado org for details.`;
       }
 
+      const structuredContent: CheckJobStatusOutput = {
+        success: true,
+        jobExecutionId,
+        jobType: job.type,
+        template: job.template,
+        status,
+        state,
+        finished,
+        startTime,
+        endTime,
+        errorMessage,
+        steps: job.steps,
+        data: job.data,
+        failureAnalysis
+      };
+
+      const stepsDisplay = job.steps.map(step =>
+        `• ${STEP_EMOJI[step.state]} ${step.name}${step.type ? ` (${step.type})` : ''} – ${step.status}${step.errorMessage ? `\n  ❌ ${step.errorMessage}` : ''}`
+      ).join('\n');
+      const dataDisplay = [
+        job.data.userStoryIds.length > 0 ? `• User Stories: ${job.data.userStoryIds.join(', ')}` : '',
+        job.data.userStoryBranches.length > 0 ? `• Branches: ${job.data.userStoryBranches.join(', ')}` : '',
+        job.data.promotionId ? `• Promotion ID: ${job.data.promotionId}` : '',
+        job.data.deploymentId ? `• Deployment ID: ${job.data.deploymentId}` : '',
+        job.data.sourceBranch || job.data.destinationBranch
+          ? `• Merge: ${job.data.sourceBranch ?? job.data.promotionBranch ?? '?'} → ${job.data.destinationBranch ?? '?'}`
+          : ''
+      ].filter(Boolean).join('\n');
+
       return {
+        structuredContent,
         content: [{
           type: "text" as const,
-          text: `${statusEmoji} **JOB STATUS UPDATE**
+          text: `${statusEmoji} **${label.toUpperCase()} STATUS UPDATE**
 
 🆔 **Job Execution ID:** ${jobExecutionId}
+🏷️ **Job Type:** ${label}${job.template ? ` (template ${job.template})` : ''}
 📊 **Current Status:** ${status.toUpperCase()} (${statusColor})
 ⏰ **Started:** ${startTime ? new Date(startTime).toLocaleString() : 'N/A'}
-${endTime ? `🏁 **Completed:** ${new Date(endTime).toLocaleString()}\n` : ''}${errorMessage ? `\n❌ **Error Details:**\n${errorMessage}\n` : ''}
+${endTime ? `🏁 **Completed:** ${new Date(endTime).toLocaleString()}\n` : ''}${errorMessage ? `\n❌ **Error Details:**\n${errorMessage}\n` : ''}${stepsDisplay ? `\n📋 **Steps:**\n${stepsDisplay}\n` : ''}${dataDisplay ? `\n📦 **Records:**\n${dataDisplay}\n` : ''}${failureAnalysis?.categories.length ? `\n${formatFailureAnalysis(failureAnalysis)}\n` : ''}
 🎯 **Next Steps:**
 ${nextSteps}
 
 📋 **Status Guide:**
 • ⏳ Not Started/Queued → 🔄 In Progress → ✅ Completed
-• ❌ Failed (check error details)
+• ❌ Failed (check error details) • 🚫 Cancelled
 
 🔄 **To check again:** Use "check status of job ${jobExecutionId}"`
         }]
       };
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      
+      const toolError = toToolError(error);
+      const errorMessage = toolError.message;
+      const structuredContent: CheckJobStatusOutput = {
+        success: false,
+        jobExecutionId,
+        finished: false,
+        error: toolError
+      };
+
       return {
+        structuredContent,
         content: [{
           type: "text" as const,
           text: `❌ Failed to check job status!
@@ -146,5 +200,55 @@ Error: ${errorMessage}
 // Schema definition for the tool
 export const checkJobStatusSchema = {
   jobExecutionId: z.string().describe("The Job Execution ID to check status for"),
-  apiKey: z.string().optional().describe("Copado webhook key for authentication (optional if COPADO_API_KEY env var is set)")
-};
\ No newline at end of file
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+// Structured result; `finished` tells callers whether to keep polling
+export const checkJobStatusOutputSchema = {
+  success: z.boolean().describe("Whether the status check itself succeeded"),
+  jobExecutionId: z.string(),
+  jobType: z.enum(JOB_TYPES).optional().describe("What the job does, derived from copado__Template__c"),
+  template: z.string().optional(),
+  status: z.string().optional().describe("Job status as reported by Copado"),
+  state: z.enum(JOB_STATES).optional().describe("Normalized status"),
+  finished: z.boolean().describe("True once the job has completed, failed or been cancelled"),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  errorMessage: z.string().optional().describe("Error reported by the job itself"),
+  steps: z.array(jobStepSchema).optional(),
+  data: jobDataSchema.optional(),
+  failureAnalysis: z.object({
+    componentFailures: z.array(z.object({
+      type: z.string().optional(),
+      name: z.string(),
+      fileName: z.string().optional(),
+      line: z.number().optional(),
+      column: z.number().optional(),
+      problem: z.string(),
+      category: z.enum(FAILURE_CATEGORIES)
+    })),
+    testFailures: z.array(z.object({
+      className: z.string(),
+      methodName: z.string(),
+      message: z.string(),
+      stackTrace: z.string().optional(),
+      category: z.enum(FAILURE_CATEGORIES)
+    })),
+    coverage: z.array(z.object({
+      name: z.string().optional().describe("Apex class or trigger; absent for the org-wide average"),
+      percent: z.number().optional(),
+      message: z.string()
+    })),
+    categories: z.array(z.object({
+      category: z.enum(FAILURE_CATEGORIES),
+      label: z.string(),
+      count: z.number(),
+      items: z.array(z.string()),
+      suggestion: z.string().describe("Fix to try for every item in this category")
+    })),
+    unparsed: z.array(z.string()).describe("Error lines that matched no known format")
+  }).optional().describe("Present when the job failed: its error text broken down per component and test"),
+  error: toolErrorSchema.optional()
+};
+
+export type CheckJobStatusOutput = z.infer<z.ZodObject<typeof checkJobStatusOutputSchema>>;
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { describeJob, JOB_TYPES } from "../copado/jobDetails.js";
+import { JOB_STATES, type JobState } from "../copado/jobStatus.js";
+import { CopadoValidationError } from "../copado/errors.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { toolErrorSchema, toToolError } from "./ToolResult.js";
+
+export interface CheckJobStatusesInput {
+  jobExecutionIds?: string[];
+  promotionId?: string;
+  userStoryId?: string;
+  concurrency?: number;
+  apiKey?: string;
+}
+
+// Upper bound per call, so one request cannot fan out into hundreds of webhook calls
+const MAX_JOBS = 50;
+
+const STATE_EMOJI: Record<JobState, string> = {
+  'queued': '⏳',
+  'in-progress': '🔄',
+  'completed': '✅',
+  'failed': '❌',
+  'cancelled': '🚫',
+  'unknown': '❔'
+};
+
+// Run fn over items with at most `limit` calls in flight, keeping the input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function durationSeconds(startTime: string | undefined, endTime: string | undefined, finished: boolean): number | undefined {
+  const start = startTime ? Date.parse(startTime) : Number.NaN;
+  const end = finished ? (endTime ? Date.parse(endTime) : Number.NaN) : Date.now();
+  return Number.isFinite(start) && Number.isFinite(end) && end >= start ? Math.round((end - start) / 1000) : undefined;
+}
+
+function formatDuration(seconds: number | undefined): string {
+  if (seconds === undefined) {
+    return '–';
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// First line of an error, short enough for a table cell
+function headline(message: string | undefined): string | undefined {
+  const first = message?.split(/\r?\n/).map(line => line.trim()).find(Boolean);
+  if (!first) {
+    return undefined;
+  }
+  return first.length > 120 ? `${first.slice(0, 117)}…` : first;
+}
+
+export const checkJobStatusesTool = {
+  name: "check_job_statuses",
+  description: "Check the status of many Copado job executions at once: a list of IDs, or every job recorded in the history for a promotion or user story. Returns a summary table with type, status, duration and error headline per job.",
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  async execute({ jobExecutionIds = [], promotionId, userStoryId, concurrency = 4, apiKey }: CheckJobStatusesInput, context: ToolContext) {
+    try {
+      // Resolve the key: session key, then Worker secret; an argument must match it
+      const client = createClient(context, apiKey);
+
+      // Explicit IDs first, then jobs recorded for the promotion or user story
+      const ids = new Set(jobExecutionIds.map(id => id.trim()).filter(Boolean));
+      const filters = [promotionId ? { promotionId } : undefined, userStoryId ? { userStoryId } : undefined];
+      for (const filter of filters) {
+        if (!filter) {
+          continue;
+        }
+        for (const operation of (await context.history.list({ ...filter, limit: 200 })).reverse()) {
+          for (const id of operation.jobExecutionIds) {
+            ids.add(id);
+          }
+        }
+      }
+      if (ids.size === 0) {
+        throw new CopadoValidationError(promotionId || userStoryId
+          ? `No job executions are recorded in the history for ${promotionId ? `promotion ${promotionId}` : `user story ${userStoryId}`}; pass jobExecutionIds instead`
+          : 'Provide jobExecutionIds, promotionId or userStoryId');
+      }
+      if (ids.size > MAX_JOBS) {
+        throw new CopadoValidationError(`${ids.size} job executions requested; check at most ${MAX_JOBS} per call`);
+      }
+
+      const jobs = await mapWithConcurrency([...ids], concurrency, async (jobExecutionId): Promise<JobStatusSummary> => {
+        try {
+          const { jobExecution } = await client.checkStatus(jobExecutionId);
+          const job = describeJob(jobExecution);
+          await context.history.updateJobStatus(jobExecutionId, job.status, job.errorMessage);
+          return {
+            jobExecutionId,
+            success: true,
+            jobType: job.type,
+            status: job.status,
+            state: job.state,
+            finished: job.finished,
+            startTime: job.startTime,
+            endTime: job.endTime,
+            durationSeconds: durationSeconds(job.startTime, job.endTime, job.finished),
+            errorHeadline: headline(job.errorMessage)
+          };
+        } catch (error) {
+          // One unreachable job must not hide the others
+          return { jobExecutionId, success: false, finished: false, error: toToolError(error) };
+        }
+      });
+
+      const counts = new Map<string, number>();
+      for (const job of jobs) {
+        const key = job.success ? job.state ?? 'unknown' : 'error';
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      const structuredContent: CheckJobStatusesOutput = {
+        success: true,
+        total: jobs.length,
+        finished: jobs.filter(job => job.finished).length,
+        counts: Object.fromEntries(counts),
+        jobs
+      };
+
+      const rows = jobs.map(job => job.success
+        ? `| ${job.jobExecutionId} | ${job.jobType} | ${STATE_EMOJI[job.state ?? 'unknown']} ${job.status} | ${formatDuration(job.durationSeconds)} | ${job.errorHeadline?.replace(/\|/g, '\\|') ?? ''} |`
+        : `| ${job.jobExecutionId} | – | ⚠️ check failed | – | ${job.error?.message.replace(/\|/g, '\\|')} |`
+      ).join('\n');
+      const countsDisplay = [...counts].map(([state, count]) => `${count} ${state}`).join(', ');
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `📊 **JOB STATUS SUMMARY** (${jobs.length} job${jobs.length === 1 ? '' : 's'}: ${countsDisplay})
+
+| Job | Type | Status | Duration | Error |
+| --- | --- | --- | --- | --- |
+${rows}
+
+🎯 **Next Steps:**
+${jobs.some(job => job.success && !job.finished)
+  ? '• Some jobs are still running; check again later or use wait_for_job on a single job'
+  : '• All jobs have finished'}${counts.has('error') ? '\n• Jobs marked "check failed" could not be fetched; verify their IDs' : ''}${counts.has('failed') ? '\n• Use check_job_status on a failed job for the full failure analysis' : ''}`
+        }]
+      };
+
+    } catch (error) {
+      const toolError = toToolError(error);
+      const structuredContent: CheckJobStatusesOutput = {
+        success: false,
+        total: 0,
+        finished: 0,
+        counts: {},
+        jobs: [],
+        error: toolError
+      };
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `❌ Failed to check job statuses!
+
+Error: ${toolError.message}
+
+🔍 **Troubleshooting:**
+• Pass jobExecutionIds explicitly, or a promotionId / userStoryId recorded in the history (see list_recent_operations)
+• Check your webhook key permissions`
+        }],
+        isError: true
+      };
+    }
+  }
+};
+
+export const checkJobStatusesSchema = {
+  jobExecutionIds: z.array(z.string()).max(MAX_JOBS).optional().describe("Job Execution IDs to check"),
+  promotionId: z.string().optional().describe("Also check every job recorded in the history for this promotion"),
+  userStoryId: z.string().optional().describe("Also check every job recorded in the history for this user story"),
+  concurrency: z.number().int().min(1).max(10).optional().default(4).describe("Maximum status checks in flight at once (default: 4)"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+const jobStatusSummarySchema = z.object({
+  jobExecutionId: z.string(),
+  success: z.boolean().describe("Whether this job's status could be fetched"),
+  jobType: z.enum(JOB_TYPES).optional(),
+  status: z.string().optional(),
+  state: z.enum(JOB_STATES).optional(),
+  finished: z.boolean(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  durationSeconds: z.number().optional().describe("Run time so far, or in total once finished"),
+  errorHeadline: z.string().optional().describe("First line of the job's error message"),
+  error: toolErrorSchema.optional()
+});
+
+type JobStatusSummary = z.infer<typeof jobStatusSummarySchema>;
+
+// Structured result with one entry per job, in the order they were requested
+export const checkJobStatusesOutputSchema = {
+  success: z.boolean(),
+  total: z.number(),
+  finished: z.number().describe("Jobs that have completed, failed or been cancelled"),
+  counts: z.record(z.number()).describe("Number of jobs per state, plus 'error' for jobs whose status could not be fetched"),
+  jobs: z.array(jobStatusSummarySchema),
+  error: toolErrorSchema.optional()
+};
+
+export type CheckJobStatusesOutput = z.infer<z.ZodObject<typeof checkJobStatusesOutputSchema>>;
@@ -1,265 +1,139 @@
 import { z } from "zod";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { toolErrorSchema, toToolError } from "./ToolResult.js";
+import { isGuessed, parseChangeDescription } from "../copado/changeParser.js";
+import { CopadoValidationError } from "../copado/errors.js";
+import { resolveMetadataType } from "../copado/metadataTypes.js";
+import { changesFromGitDiff } from "../copado/gitDiff.js";
+import { changesFromPackageXml, changesFromSourcePaths, dedupeChanges } from "../copado/sourcePaths.js";
+import { COMMIT_ACTIONS, type CommitAction, type CommitChange, DEFAULT_MODULE } from "../copado/models.js";
+
+// An explicitly specified change, used instead of parsing a description
+export interface ChangeInput {
+  action?: CommitAction;
+  name: string;
+  type: string;
+  module?: string;
+}
 
 export interface CommitInput {
   userStoryId: string;
-  changesDescription: string;
+  changesDescription?: string;
+  changes?: ChangeInput[];
+  sourcePaths?: string[];
+  packageXml?: string;
+  gitDiff?: string;
+  sourceAction?: CommitAction;
   commitMessage?: string;
+  idempotencyKey?: string;
   apiKey?: string;
 }
 
-// Helper function to parse changes description and convert to Copado format
-// Additional improvements: better pattern ordering and exclusions
-function parseChangesToCopadoFormat(description: string): Array<{a: string, n: string, t: string, m: string}> {
-  const changes: Array<{a: string, n: string, t: string, m: string}> = [];
-  
-  // Common Salesforce metadata type mappings with more variations
-  const typeMap = {
-    'apex class': 'ApexClass',
-    'class': 'ApexClass',
-    'apex trigger': 'ApexTrigger', 
-    'trigger': 'ApexTrigger',
-    'lightning component': 'LightningComponentBundle',
-    'lwc': 'LightningComponentBundle',
-    'component': 'LightningComponentBundle',
-    'flow': 'Flow',
-    'custom object': 'CustomObject',
-    'object': 'CustomObject',
-    'custom field': 'CustomField',
-    'field': 'CustomField',
-    'layout': 'Layout',
-    'permission set': 'PermissionSet',
-    'profile': 'Profile',
-    'custom label': 'CustomLabel',
-    'label': 'CustomLabel',
-    'validation rule': 'ValidationRule',
-    'workflow rule': 'WorkflowRule',
-    'email template': 'EmailTemplate',
-    'report': 'Report',
-    'dashboard': 'Dashboard'
-  };
-
-  // Common action mappings
-  const actionMap = {
-    'added': 'Add',
-    'created': 'Add',
-    'new': 'Add',
-    'modified': 'Add',
-    'changed': 'Add',
-    'updated': 'Add',
-    'edited': 'Add',
-    'deleted': 'Delete',
-    'removed': 'Delete'
-  };
-
-  // Words to exclude from component names
-  const excludeWords = new Set([
-    'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-    'made', 'some', 'changes', 'also', 'gave', 'access', 'it', 'them', 'this', 'that',
-    'add', 'modify', 'delete', 'user', 'story', 'updated', 'created', 'modified',
-    'changed', 'new', 'old', 'existing', 'current', 'previous', 'next', 'first', 'last'
-  ]);
-
-  // Default module path
-  const defaultModule = 'force-app/main/default';
-  
-  // Default action
-  let defaultAction = 'Add';
-  const lowerDesc = description.toLowerCase();
-  
-  // Extract default action
-  for (const [keyword, actionValue] of Object.entries(actionMap)) {
-    if (lowerDesc.includes(keyword)) {
-      defaultAction = actionValue;
-      break;
+// Validate explicit changes against the metadata type catalog and convert them
+// to Copado format. Every problem is reported at once so it can be fixed in one go.
+function toCopadoChanges(changes: ChangeInput[]): CommitChange[] {
+  const problems: string[] = [];
+  const copadoChanges: CommitChange[] = [];
+
+  changes.forEach((change, index) => {
+    const type = resolveMetadataType(change.type);
+    const name = change.name.trim();
+    if (!type) {
+      problems.push(`#${index + 1} "${change.name}": unknown metadata type "${change.type}"`);
     }
-  }
-
-  // More sophisticated parsing: look for specific patterns
-  const componentPatterns = [
-    // Pattern: "ComponentName class/trigger/etc"
-    /\b([A-Z][A-Za-z0-9_]*)\s+(class|trigger|component|flow|object|field|layout|profile|label)\b/gi,
-    // Pattern: "class/trigger/etc ComponentName" 
-    /\b(class|trigger|component|flow|object|field|layout|profile|label)\s+([A-Z][A-Za-z0-9_]*)\b/gi,
-    // Pattern: "apex class ComponentName" or "custom object ComponentName"
-    /\b(?:apex\s+)?(class|trigger|component|flow|object|field|layout|profile|label)\s+([A-Z][A-Za-z0-9_]*)\b/gi,
-    // Pattern: "ComponentName apex class" 
-    /\b([A-Z][A-Za-z0-9_]*)\s+apex\s+(class|trigger)\b/gi,
-    // Pattern: quoted component names
-    /["']([A-Z][A-Za-z0-9_]+)["']/g
-  ];
-
-  const foundComponents = new Map<string, string>(); // name -> type
-
-  // Process each pattern
-  for (const pattern of componentPatterns) {
-    let match;
-    while ((match = pattern.exec(description)) !== null) {
-      let componentName: string;
-      let componentType: string;
-      
-      if (match[1] && match[2]) {
-        // Two capture groups - determine which is name and which is type
-        const first = match[1];
-        const second = match[2];
-        
-        const secondKey = second.toLowerCase() as keyof typeof typeMap;
-        const firstKey = first.toLowerCase() as keyof typeof typeMap;
-        
-        if (secondKey in typeMap) {
-          // Second is type, first is name
-          componentName = first;
-          componentType = typeMap[secondKey];
-        } else if (firstKey in typeMap) {
-          // First is type, second is name  
-          componentName = second;
-          componentType = typeMap[firstKey];
-        } else {
-          continue; // Skip if we can't determine type
-        }
-      } else {
-        // Single capture group (quoted names)
-        componentName = match[1];
-        componentType = 'ApexClass'; // Default type for quoted names
-      }
-      
-      // Filter out excluded words and validate component name
-      if (componentName && 
-          componentName.length > 1 && 
-          !excludeWords.has(componentName.toLowerCase()) &&
-          /^[A-Z][A-Za-z0-9_]*$/.test(componentName)) {
-        foundComponents.set(componentName, componentType);
-      }
+    if (!name) {
+      problems.push(`#${index + 1}: component name must not be empty`);
     }
-  }
-
-  // If no components found using patterns, try fallback approach
-  if (foundComponents.size === 0) {
-    // Look for capitalized words that might be component names
-    const fallbackPattern = /\b([A-Z][A-Za-z0-9_]{2,})\b/g;
-    let match;
-    while ((match = fallbackPattern.exec(description)) !== null) {
-      const name = match[1];
-      if (!excludeWords.has(name.toLowerCase()) && 
-          name.length > 2 && 
-          !['Add', 'Modify', 'Delete', 'User', 'Story'].includes(name)) {
-        
-        // Try to infer type from context
-        let inferredType = 'ApexClass'; // default
-        const beforeText = description.substring(Math.max(0, match.index - 20), match.index).toLowerCase();
-        const afterText = description.substring(match.index + name.length, match.index + name.length + 20).toLowerCase();
-        const contextText = beforeText + ' ' + afterText;
-        
-        for (const [keyword, typeValue] of Object.entries(typeMap)) {
-          if (contextText.includes(keyword)) {
-            inferredType = typeValue;
-            break;
-          }
-        }
-        
-        foundComponents.set(name, inferredType);
-      }
-    }
-  }
-
-  // Create change objects from found components
-  if (foundComponents.size > 0) {
-    foundComponents.forEach((type, name) => {
-      changes.push({
-        a: defaultAction,
+    if (type && name) {
+      copadoChanges.push({
+        a: change.action ?? 'Add',
         n: name,
         t: type,
-        m: defaultModule
+        m: change.module?.trim() || DEFAULT_MODULE
       });
-    });
-  } else {
-    // Fallback: create a generic change object
-    changes.push({
-      a: defaultAction,
-      n: 'UnknownComponent',
-      t: 'ApexClass',
-      m: defaultModule
-    });
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new CopadoValidationError(`Invalid changes:\n${problems.map(problem => `• ${problem}`).join('\n')}`);
   }
+  return copadoChanges;
+}
 
-  return changes;
+// Derive changes from SFDX source paths, a package.xml manifest and/or a git diff.
+// The diff carries its own Add/Delete actions; files that are not metadata are skipped.
+function changesFromSources(sourcePaths: string[], packageXml: string | undefined, gitDiff: string | undefined, action: CommitAction): { changes: CommitChange[], skipped: string[] } {
+  const fromPaths = changesFromSourcePaths(sourcePaths, action);
+  const fromManifest = packageXml ? changesFromPackageXml(packageXml, action) : { changes: [], problems: [] };
+  const fromDiff = gitDiff ? changesFromGitDiff(gitDiff) : { changes: [], problems: [], skipped: [] };
+  const problems = [...fromPaths.problems, ...fromManifest.problems, ...fromDiff.problems];
+
+  if (problems.length > 0) {
+    throw new CopadoValidationError(`Invalid sources:\n${problems.map(problem => `• ${problem}`).join('\n')}`);
+  }
+  return {
+    changes: dedupeChanges([...fromPaths.changes, ...fromManifest.changes, ...fromDiff.changes]),
+    skipped: fromDiff.skipped
+  };
+}
+
+export const ACTION_EMOJI: Record<CommitAction, string> = {
+  Add: '➕',
+  Delete: '🗑️',
+  RetrieveOnly: '📥'
+};
+
+// Expand Copado's compact {a, n, t, m} change into self-describing fields
+export function toChangeOutput(change: CommitChange) {
+  return { action: change.a, name: change.n, type: change.t, module: change.m };
 }
 
 export const commitTool = {
   name: "commit_changes",
-  description: "Commit changes to a Copado User Story. Automatically parses change descriptions and formats them for Copado.",
+  description: "Commit changes to a Copado User Story. Accepts an explicit list of changes, or parses a natural language description and formats it for Copado.",
+  annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
   
-  async execute({ userStoryId, changesDescription, commitMessage, apiKey }: CommitInput) {
+  async execute({ userStoryId, changesDescription, changes, sourcePaths = [], packageXml, gitDiff, sourceAction = 'Add', commitMessage, apiKey }: CommitInput, context: ToolContext) {
+    let parsedChanges: CommitChange[] = [];
+    let skippedFiles: string[] = [];
+
     try {
-      // Use provided API key or fall back to environment variable
-      const authToken = process.env.COPADO_API_KEY;
-      
-      if (!authToken) {
-        throw new Error("API key is required. Provide it as a parameter or set COPADO_API_KEY environment variable.");
+      // Resolve the key: session key, then Worker secret; an argument must match it
+      const client = createClient(context, apiKey);
+
+      // Explicit changes and source files skip the natural language parser entirely
+      if (changes && changes.length > 0) {
+        parsedChanges = toCopadoChanges(changes);
+      } else if (sourcePaths.length > 0 || packageXml || gitDiff) {
+        ({ changes: parsedChanges, skipped: skippedFiles } = changesFromSources(sourcePaths, packageXml, gitDiff, sourceAction));
+      } else if (changesDescription) {
+        const parsed = parseChangeDescription(changesDescription);
+        if (parsed.changes.length === 0) {
+          throw new CopadoValidationError(
+            "Could not identify any metadata components in the description, so nothing was committed. Name the components and their types, or pass an explicit changes list."
+          );
+        }
+        const guessed = parsed.changes.filter(isGuessed);
+        if (guessed.length > 0) {
+          throw new CopadoValidationError(
+            `The type of ${guessed.map(({ change }) => `"${change.n}"`).join(', ')} was guessed from the description, so nothing was committed. Name each component next to its type (e.g. "AccountController apex class") or pass an explicit changes list; preview_commit shows how a description is parsed.`
+          );
+        }
+        parsedChanges = parsed.changes.map(({ change }) => change);
+      } else {
+        throw new CopadoValidationError("Provide changes, sourcePaths, packageXml, gitDiff or changesDescription.");
       }
-
-      // Parse the changes description into Copado format
-      const parsedChanges = parseChangesToCopadoFormat(changesDescription);
       
       // Generate commit message if not provided
-      const message = commitMessage || `Commit changes: ${changesDescription}`;
-
-      // Use the Copado commit webhook endpoint
-      const webhookUrl = `https://app-api.copado.com/json/v1/webhook/mcwebhook/commit`;
-      
-      // Use the correct payload format
-      const payload = {
-        action: "Commit",
-        key: authToken,
-        payload: {
-          userStoryId: userStoryId,
-          changes: parsedChanges,
-          message: message
-        }
-      };
+      const message = commitMessage
+        || `Commit changes: ${changesDescription || parsedChanges.map(change => change.n).join(', ')}`;
 
-      console.log('🔍 Making commit request to Copado API:');
-      console.log('URL:', webhookUrl);
-      console.log('Headers:', {
-        'Content-Type': 'application/json',
-        'copado-webhook-key': `${authToken.substring(0, 10)}...`,
-        'User-Agent': 'Copado-MCP-Server/1.0.0'
-      });
-      console.log('Payload:', JSON.stringify({
-        action: payload.action,
-        key: `${authToken.substring(0, 10)}...`,
-        payload: {
-          ...payload.payload,
-          changes: parsedChanges
-        }
-      }, null, 2));
-
-      // Make the POST request
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'copado-webhook-key': authToken,
-          'User-Agent': 'Copado-MCP-Server/1.0.0'
-        },
-        body: JSON.stringify(payload)
+      const result = await client.commit({
+        userStoryId: userStoryId,
+        changes: parsedChanges,
+        message: message
       });
 
-      console.log('📥 Commit response status:', response.status, response.statusText);
-      
-      const responseText = await response.text();
-      console.log('📥 Commit response body:', responseText);
-
-      if (!response.ok) {
-        throw new Error(`Copado commit request failed: ${response.status} ${response.statusText}. Response: ${responseText}`);
-      }
-
-      let result;
-      try {
-        result = JSON.parse(responseText);
-      } catch (parseError) {
-        result = { message: responseText, status: 'completed' };
-      }
-
       // Extract commit information from response
       const jobExecution = result.jobExecution || {};
       const jobExecutionId = jobExecution.Id;
@@ -268,10 +142,27 @@ export const commitTool = {
 
       // Format changes for display
       const changesDisplay = parsedChanges.map(change => 
-        `• ${change.a}: ${change.n} (${change.t})`
+        `• ${ACTION_EMOJI[change.a]} ${change.a}: ${change.n} (${change.t})`
       ).join('\n');
+      const actionCounts = COMMIT_ACTIONS
+        .map(action => [action, parsedChanges.filter(change => change.a === action).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([action, count]) => `${count} ${action}`)
+        .join(', ');
+
+      const structuredContent: CommitOutput = {
+        success: true,
+        userStoryId,
+        commitId,
+        jobExecutionId,
+        status,
+        message,
+        changes: parsedChanges.map(toChangeOutput),
+        skippedFiles: skippedFiles.length > 0 ? skippedFiles : undefined
+      };
 
       return {
+        structuredContent,
         content: [{
           type: "text" as const,
           text: `✅ Changes committed successfully!
@@ -283,10 +174,13 @@ export const commitTool = {
 • Status: ${status}
 • Message: "${message}"
 
-📝 **COMMITTED CHANGES:**
+📝 **COMMITTED CHANGES:** (${actionCounts})
 ${changesDisplay}
 
-🔧 **PARSED METADATA FORMAT:**
+${skippedFiles.length > 0 ? `⏭️ **SKIPPED FILES:** (not Salesforce metadata)
+${skippedFiles.map(file => `• ${file}`).join('\n')}
+
+` : ''}🔧 **PARSED METADATA FORMAT:**
 ${parsedChanges.map(c => `• Action: ${c.a}, Name: ${c.n}, Type: ${c.t}, Module: ${c.m}`).join('\n')}
 
 🚀 **NEXT STEPS:**
@@ -299,12 +193,26 @@ ${parsedChanges.map(c => `• Action: ${c.a}, Name: ${c.n}, Type: ${c.t}, Module
       };
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      
-      return {
-        content: [{
-          type: "text" as const,
-          text: `❌ Failed to commit changes!
+      return commitTool.failure({ userStoryId, changesDescription }, error, parsedChanges);
+    }
+  },
+
+  // Error result for a commit that did not go through
+  failure({ userStoryId, changesDescription }: Pick<CommitInput, 'userStoryId' | 'changesDescription'>, error: unknown, parsedChanges: CommitChange[] = []) {
+    const toolError = toToolError(error);
+    const errorMessage = toolError.message;
+    const structuredContent: CommitOutput = {
+      success: false,
+      userStoryId,
+      changes: parsedChanges.map(toChangeOutput),
+      error: toolError
+    };
+
+    return {
+      structuredContent,
+      content: [{
+        type: "text" as const,
+        text: `❌ Failed to commit changes!
 
 Error: ${errorMessage}
 
@@ -314,22 +222,54 @@ Error: ${errorMessage}
 • Ensure your webhook key has commit permissions
 • Verify the changes description format
 
-📝 **Changes attempted to parse:**
+${changesDescription ? `📝 **Changes attempted to parse:**
 "${changesDescription}"
 
-💡 **Tip:** Be specific about component names and types, e.g.:
-"Modified the AccountController apex class and ContactTrigger trigger"`
-        }],
-        isError: true
-      };
-    }
+` : ''}💡 **Tip:** Be specific about component names and types, e.g.:
+"Modified the AccountController apex class and ContactTrigger trigger"
+or pass an explicit changes list: [{ "action": "Add", "name": "AccountController", "type": "ApexClass" }]`
+      }],
+      isError: true
+    };
   }
 };
 
 // Schema definition for the tool
 export const commitSchema = {
   userStoryId: z.string().describe("The Salesforce ID of the User Story to commit changes to"),
-  changesDescription: z.string().describe("Natural language description of the changes made (e.g., 'Modified the AccountController apex class and added new ContactTrigger trigger')"),
+  changesDescription: z.string().optional().describe("Natural language description of the changes made (e.g., 'Modified the AccountController apex class and added new ContactTrigger trigger'). Ignored when changes is provided"),
+  changes: z.array(z.object({
+    action: z.enum(COMMIT_ACTIONS).optional().default('Add').describe("Add, Delete or RetrieveOnly (default: Add)"),
+    name: z.string().describe("API name of the component, e.g. 'AccountController' or 'Account.Tier__c'"),
+    type: z.string().describe("Salesforce metadata type, e.g. 'ApexClass', 'CustomField', 'LightningComponentBundle'"),
+    module: z.string().optional().describe("Package directory the component lives in (default: force-app/main/default)")
+  })).optional().describe("Explicit list of changes. Skips description parsing; types are checked against the known metadata type catalog"),
+  sourcePaths: z.array(z.string()).optional().describe("SFDX source paths that were touched, e.g. 'force-app/main/default/classes/AccountController.cls' or 'force-app/main/default/objects/Account/fields/Tier__c.field-meta.xml'. Type, API name and module are derived from each path"),
+  packageXml: z.string().optional().describe("A package.xml manifest listing the components to commit"),
+  gitDiff: z.string().optional().describe("Output of `git diff --name-status` or a full unified diff. Added, modified, deleted and renamed files under SFDX package directories become Add or Delete changes, one per component (companion -meta.xml and bundle files are collapsed); other files are skipped. sourceAction does not apply"),
+  sourceAction: z.enum(COMMIT_ACTIONS).optional().default('Add').describe("Action applied to components from sourcePaths and packageXml (default: Add; use Delete for destructiveChanges.xml)"),
   commitMessage: z.string().optional().describe("Optional commit message (will be auto-generated if not provided)"),
-  apiKey: z.string().optional().describe("Copado webhook key for authentication (optional if COPADO_API_KEY env var is set)")
-};
\ No newline at end of file
+  idempotencyKey: z.string().optional().describe("Key identifying this commit, e.g. a UUID. Retrying with the same key returns the original result instead of committing again (kept for 24 hours). Calls without a key always run"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+// Structured result, so clients can chain the job execution ID without parsing text
+export const commitOutputSchema = {
+  success: z.boolean(),
+  userStoryId: z.string(),
+  commitId: z.string().optional(),
+  jobExecutionId: z.string().optional().describe("Job Execution ID to pass to check_job_status"),
+  status: z.string().optional(),
+  message: z.string().optional().describe("Commit message sent to Copado"),
+  changes: z.array(z.object({
+    action: z.string(),
+    name: z.string(),
+    type: z.string(),
+    module: z.string()
+  })),
+  skippedFiles: z.array(z.string()).optional().describe("Files of gitDiff that are not Salesforce metadata and were left out"),
+  replayed: z.boolean().optional().describe("True when this is the stored result of an earlier call; Copado was not called again"),
+  error: toolErrorSchema.optional()
+};
+
+export type CommitOutput = z.infer<z.ZodObject<typeof commitOutputSchema>>;
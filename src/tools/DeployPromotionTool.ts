@@ -1,75 +1,66 @@
 import { z } from "zod";
+import { jobDataOf } from "../copado/jobDetails.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { confirmationSchema, toolErrorSchema, toToolError } from "./ToolResult.js";
 
 export interface DeployPromotionInput {
   promotionId: string;
+  targetEnvironment?: string;
+  confirmationToken?: string;
+  idempotencyKey?: string;
   apiKey?: string;
 }
 
 export const deployPromotionTool = {
   name: "deploy_promotion",
   description: "Deploy a promotion using Copado's PromotionDeployment webhook",
+  annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
   
-  async execute({ promotionId, apiKey }: DeployPromotionInput) {
+  async execute({ promotionId, targetEnvironment, confirmationToken, apiKey }: DeployPromotionInput, context: ToolContext) {
     try {
-      // Use provided API key or fall back to environment variable
-      const authToken = process.env.COPADO_API_KEY;
-      
-      if (!authToken) {
-        throw new Error("API key is required. Provide it as a parameter or set COPADO_API_KEY environment variable.");
-      }
+      // Resolve the key: session key, then Worker secret; an argument must match it
+      const client = createClient(context, apiKey);
 
-      // Use the current Copado API endpoint
-      const webhookUrl = `https://app-api.copado.com/json/v1/webhook/mcwebhook/promotiondeployment`;
-      
-      // Use the correct payload format from documentation
-      const payload = {
-        action: "PromotionDeployment",
-        key: authToken,
-        payload: {
-          promotionId: promotionId
-        }
-      };
+      // Deployments to protected environments need a confirmed second call; the
+      // destination is looked up from where the promotion was created
+      const confirmation = await context.deployments.authorize({
+        tool: deployPromotionTool.name,
+        actor: context.identity?.subject,
+        targetEnvironment,
+        promotionId,
+        details: { promotionId }
+      }, confirmationToken);
 
-      console.log('🔍 Making request to Copado API:');
-      console.log('URL:', webhookUrl);
-      console.log('Headers:', {
-        'Content-Type': 'application/json',
-        'copado-webhook-key': `${authToken.substring(0, 10)}...`,
-        'User-Agent': 'Copado-MCP-Server/1.0.0'
-      });
-      console.log('Payload:', JSON.stringify({
-        action: payload.action,
-        key: `${authToken.substring(0, 10)}...`,
-        payload: payload.payload
-      }, null, 2));
-
-      // Make the POST request with both header and key in payload
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'copado-webhook-key': authToken,
-          'User-Agent': 'Copado-MCP-Server/1.0.0'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      console.log('📥 Response status:', response.status, response.statusText);
-      
-      const responseText = await response.text();
-      console.log('📥 Response body:', responseText);
+      if (confirmation) {
+        const structuredContent: DeployPromotionOutput = {
+          success: false,
+          promotionId,
+          status: 'ConfirmationRequired',
+          userStoryIds: [],
+          userStoryBranches: [],
+          confirmation
+        };
 
-      if (!response.ok) {
-        throw new Error(`Copado API request failed: ${response.status} ${response.statusText}. Response: ${responseText}`);
-      }
+        return {
+          structuredContent,
+          content: [{
+            type: "text" as const,
+            text: `🛑 Deployment needs confirmation – promotion ${promotionId} was not deployed.
 
-      let result;
-      try {
-        result = JSON.parse(responseText);
-      } catch (parseError) {
-        result = { message: responseText, status: 'completed' };
+🛡️ **PROTECTED ENVIRONMENT**
+• Environment: ${confirmation.environment}
+• Reason: ${confirmation.reason}
+
+✋ **TO PROCEED:**
+• Ask the user to confirm this deployment explicitly
+• Then call deploy_promotion again with the same arguments and confirmationToken "${confirmation.token}"
+• The token expires at ${confirmation.expiresAt} and can be used once`
+          }]
+        };
       }
 
+      const result = await client.deployPromotion({ promotionId: promotionId });
+
       // Extract key information from Copado's response
       const jobExecution = result.jobExecution || {};
       const jobExecutionId = jobExecution.Id;
@@ -77,25 +68,30 @@ export const deployPromotionTool = {
       const status = jobExecution['copado__Status__c'];
       const template = jobExecution['copado__Template__c'];
       
-      // Parse additional details from DataJson if available
+      // User stories and branches from the job's DataJson, when Copado includes it
+      const { userStoryIds, userStoryBranches } = jobDataOf(jobExecution);
       let additionalInfo = '';
-      try {
-        const dataJson = JSON.parse(jobExecution['copado__DataJson__c'] || '{}');
-        const userStoryIds = dataJson.userStoryIds || [];
-        const userStoryBranches = dataJson.userStoryBranches || [];
-        
-        if (userStoryIds.length > 0) {
-          additionalInfo += `\n📝 User Stories: ${userStoryIds.join(', ')}`;
-        }
-        if (userStoryBranches.length > 0) {
-          additionalInfo += `\n🌿 Branches: ${userStoryBranches.join(', ')}`;
-        }
-      } catch (parseError) {
-        // Ignore parsing errors for additional info
+      if (userStoryIds.length > 0) {
+        additionalInfo += `\n📝 User Stories: ${userStoryIds.join(', ')}`;
+      }
+      if (userStoryBranches.length > 0) {
+        additionalInfo += `\n🌿 Branches: ${userStoryBranches.join(', ')}`;
       }
 
+      const structuredContent: DeployPromotionOutput = {
+        success: true,
+        promotionId,
+        jobExecutionId,
+        deploymentId,
+        status,
+        template,
+        userStoryIds,
+        userStoryBranches
+      };
+
       // Structure response for easy AI parsing
       return {
+        structuredContent,
         content: [{
           type: "text" as const,
           text: `✅ Promotion deployment initiated successfully!
@@ -120,26 +116,61 @@ Use Job Execution ID: **${jobExecutionId}**
       };
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      
-      return {
-        content: [{
-          type: "text" as const,
-          text: `❌ Failed to deploy promotion!\n\n` +
-                `Error: ${errorMessage}\n\n` +
-                `Please check:\n` +
-                `- Your webhook key is valid and has proper permissions\n` +
-                `- The promotion ID (${promotionId}) exists and is ready for deployment\n` +
-                `- Your network connection is stable`
-        }],
-        isError: true
-      };
+      return deployPromotionTool.failure({ promotionId }, error);
     }
+  },
+
+  // Error result for a deployment that did not go through
+  failure({ promotionId }: Pick<DeployPromotionInput, 'promotionId'>, error: unknown) {
+    const toolError = toToolError(error);
+    const errorMessage = toolError.message;
+    const structuredContent: DeployPromotionOutput = {
+      success: false,
+      promotionId,
+      userStoryIds: [],
+      userStoryBranches: [],
+      error: toolError
+    };
+
+    return {
+      structuredContent,
+      content: [{
+        type: "text" as const,
+        text: `❌ Failed to deploy promotion!\n\n` +
+              `Error: ${errorMessage}\n\n` +
+              `Please check:\n` +
+              `- Your webhook key is valid and has proper permissions\n` +
+              `- The promotion ID (${promotionId}) exists and is ready for deployment\n` +
+              `- The promotion was created with promote_user_story from an environment registered with promotesTo\n` +
+              `- Your network connection is stable`
+      }],
+      isError: true
+    };
   }
 };
 
 // Schema definition for the tool
 export const deployPromotionSchema = {
   promotionId: z.string().describe("The ID of the promotion to deploy"),
-  apiKey: z.string().optional().describe("Copado webhook key for authentication (optional if COPADO_API_KEY env var is set)")
-};
\ No newline at end of file
+  targetEnvironment: z.string().optional().describe("Environment you expect the promotion to deploy to (registered name or Salesforce ID). The destination is taken from the promotion's source environment; a different target is refused"),
+  confirmationToken: z.string().optional().describe("Token from a previous ConfirmationRequired result, passed only after the user confirmed the deployment"),
+  idempotencyKey: z.string().optional().describe("Key identifying this deployment, e.g. a UUID. Retrying with the same key returns the original result instead of deploying again (kept for 24 hours). Calls without a key always run"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+// Structured result, so clients can pass the job execution ID straight to check_job_status
+export const deployPromotionOutputSchema = {
+  success: z.boolean(),
+  promotionId: z.string(),
+  jobExecutionId: z.string().optional().describe("Job Execution ID to pass to check_job_status"),
+  deploymentId: z.string().optional(),
+  status: z.string().optional(),
+  template: z.string().optional(),
+  userStoryIds: z.array(z.string()),
+  userStoryBranches: z.array(z.string()),
+  replayed: z.boolean().optional().describe("True when this is the stored result of an earlier call; Copado was not called again"),
+  confirmation: confirmationSchema.optional().describe("Present when the deployment was held for confirmation"),
+  error: toolErrorSchema.optional()
+};
+
+export type DeployPromotionOutput = z.infer<z.ZodObject<typeof deployPromotionOutputSchema>>;
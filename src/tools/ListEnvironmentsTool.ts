@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { Environment } from "../storage/EnvironmentRegistry.js";
+import type { ToolContext } from "./ToolContext.js";
+import { toolErrorSchema, toToolError } from "./ToolResult.js";
+
+export const listEnvironmentsTool = {
+  name: "list_environments",
+  description: "List the Copado environments registered for this Copado org (shared by all its sessions), with their friendly names and Salesforce IDs",
+  annotations: { readOnlyHint: true, openWorldHint: false },
+
+  async execute(context: ToolContext) {
+    let environments: Environment[];
+    try {
+      environments = await context.environments.list();
+    } catch (error) {
+      const toolError = toToolError(error);
+      const structuredContent: ListEnvironmentsOutput = { environments: [], error: toolError };
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `❌ Failed to read the environment registry!
+
+Error: ${toolError.message}`
+        }],
+        isError: true
+      };
+    }
+    const structuredContent: ListEnvironmentsOutput = { environments };
+
+    if (environments.length === 0) {
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `📭 No environments registered yet.
+
+💡 **Tip:** Register one with "register environment dev1 as a0c8c00000LpAxEAAV", then promote with sourceEnvironment "dev1".`
+        }]
+      };
+    }
+
+    const environmentsDisplay = environments.map(environment =>
+      `• ${environment.protected ? '🔒 ' : ''}**${environment.name}** → ${environment.environmentId}${environment.description ? ` (${environment.description})` : ''}${environment.promotesTo ? ` ➡️ ${environment.promotesTo}` : ''}`
+    ).join('\n');
+
+    return {
+      structuredContent,
+      content: [{
+        type: "text" as const,
+        text: `🌐 **REGISTERED ENVIRONMENTS**
+${environmentsDisplay}
+
+💡 Use any of these names as sourceEnvironment when promoting user stories.${environments.some(environment => environment.protected)
+  ? '\n🔒 Deployments to protected environments need explicit confirmation.'
+  : ''}`
+      }]
+    };
+  }
+};
+
+export const environmentOutputSchema = z.object({
+  name: z.string(),
+  environmentId: z.string(),
+  description: z.string().optional(),
+  protected: z.boolean(),
+  promotesTo: z.string().optional(),
+  registeredAt: z.string()
+});
+
+export const listEnvironmentsOutputSchema = {
+  environments: z.array(environmentOutputSchema),
+  error: toolErrorSchema.optional()
+};
+
+export type ListEnvironmentsOutput = z.infer<z.ZodObject<typeof listEnvironmentsOutputSchema>>;
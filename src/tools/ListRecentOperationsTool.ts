@@ -0,0 +1,97 @@
+import { z } from "zod";
+import type { OperationRecord } from "../storage/OperationHistory.js";
+import type { ToolContext } from "./ToolContext.js";
+import { toolErrorSchema, toToolError } from "./ToolResult.js";
+
+export interface ListRecentOperationsInput {
+  userStoryId?: string;
+  promotionId?: string;
+  status?: string;
+  limit?: number;
+}
+
+// One line per operation for the text summary
+export function formatOperation(operation: OperationRecord): string {
+  const details = [
+    operation.userStoryIds.length > 0 ? `stories ${operation.userStoryIds.join(', ')}` : '',
+    operation.promotionId ? `promotion ${operation.promotionId}` : '',
+    operation.jobExecutionIds.length > 0 ? `jobs ${operation.jobExecutionIds.join(', ')}` : ''
+  ].filter(Boolean).join(' · ');
+
+  return `• [${operation.createdAt}] **${operation.tool}**${operation.actor ? ` by ${operation.actor}` : ''} — ${operation.status ?? 'Unknown'}${details ? `\n  ${details}` : ''}${operation.error ? `\n  ❌ ${operation.error}` : ''}`;
+}
+
+export const listRecentOperationsTool = {
+  name: "list_recent_operations",
+  description: "List recent commits, promotions, deployments and status results recorded for this Copado org by any session, optionally filtered by user story, promotion or status",
+  annotations: { readOnlyHint: true, openWorldHint: false },
+
+  async execute({ userStoryId, promotionId, status, limit = 20 }: ListRecentOperationsInput, context: ToolContext) {
+    let operations: OperationRecord[];
+    try {
+      operations = await context.history.list({ userStoryId, promotionId, status, limit });
+    } catch (error) {
+      const toolError = toToolError(error);
+      const structuredContent: ListRecentOperationsOutput = { operations: [], error: toolError };
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `❌ Failed to read the operation history!
+
+Error: ${toolError.message}`
+        }],
+        isError: true
+      };
+    }
+    const structuredContent: ListRecentOperationsOutput = { operations };
+
+    const filters = [
+      userStoryId ? `user story ${userStoryId}` : '',
+      promotionId ? `promotion ${promotionId}` : '',
+      status ? `status ${status}` : ''
+    ].filter(Boolean).join(', ');
+
+    return {
+      structuredContent,
+      content: [{
+        type: "text" as const,
+        text: operations.length === 0
+          ? `📭 No recorded operations${filters ? ` for ${filters}` : ''}.`
+          : `📜 **RECENT OPERATIONS**${filters ? ` (${filters})` : ''}
+
+${operations.map(formatOperation).join('\n')}`
+      }]
+    };
+  }
+};
+
+// Schema definition for the tool
+export const listRecentOperationsSchema = {
+  userStoryId: z.string().optional().describe("Only operations that included this User Story ID"),
+  promotionId: z.string().optional().describe("Only operations for this Promotion ID"),
+  status: z.string().optional().describe("Only operations whose latest status matches, e.g. 'Completed', 'Failed' or 'Error'"),
+  limit: z.number().int().min(1).max(200).optional().default(20).describe("Maximum number of operations to return (default: 20)")
+};
+
+export const operationOutputSchema = z.object({
+  id: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  tool: z.string(),
+  actor: z.string().optional(),
+  userStoryIds: z.array(z.string()),
+  promotionId: z.string().optional(),
+  jobExecutionIds: z.array(z.string()),
+  changes: z.array(z.unknown()).optional(),
+  status: z.string().optional(),
+  error: z.string().optional()
+});
+
+export const listRecentOperationsOutputSchema = {
+  operations: z.array(operationOutputSchema),
+  error: toolErrorSchema.optional()
+};
+
+export type ListRecentOperationsOutput = z.infer<z.ZodObject<typeof listRecentOperationsOutputSchema>>;
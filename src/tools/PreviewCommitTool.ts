@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { isGuessed, type MatchConfidence, parseChangeDescription } from "../copado/changeParser.js";
+import { ACTION_EMOJI, toChangeOutput } from "./CommitTool.js";
+
+export interface PreviewCommitInput {
+  changesDescription: string;
+}
+
+const CONFIDENCE_LABEL: Record<MatchConfidence, string> = {
+  'pattern': '🟢 pattern',
+  'fallback': '🟡 fallback',
+  'quoted-default': '🟠 quoted default'
+};
+
+export const previewCommitTool = {
+  name: "preview_commit",
+  description: "Preview how commit_changes would parse a natural language description, without calling Copado. Returns each parsed component with the confidence of its match and warnings for anything ambiguous, so the changes can be confirmed before committing.",
+  annotations: { readOnlyHint: true, openWorldHint: false },
+
+  async execute({ changesDescription }: PreviewCommitInput) {
+    const { changes, warnings } = parseChangeDescription(changesDescription);
+
+    const guessed = changes.filter(isGuessed);
+
+    const structuredContent: PreviewCommitOutput = {
+      committable: changes.length > 0 && guessed.length === 0,
+      changes: changes.map(({ change, confidence, keyword }) => ({ ...toChangeOutput(change), confidence, keyword })),
+      warnings
+    };
+
+    if (changes.length === 0) {
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `🔍 No metadata components found in the description, so commit_changes would refuse to commit it.
+
+📝 **Description:**
+"${changesDescription}"
+
+💡 **Tip:** Name each component with its type, e.g. "Modified the AccountController apex class", or pass an explicit changes list to commit_changes.`
+        }]
+      };
+    }
+
+    const changesDisplay = changes.map(({ change, confidence }) =>
+      `• ${ACTION_EMOJI[change.a]} ${change.a}: ${change.n} (${change.t}) – ${CONFIDENCE_LABEL[confidence]}`
+    ).join('\n');
+
+    return {
+      structuredContent,
+      content: [{
+        type: "text" as const,
+        text: `🔍 **COMMIT PREVIEW** (nothing was sent to Copado)
+
+📝 **PARSED CHANGES:**
+${changesDisplay}
+
+${warnings.length > 0 ? `⚠️ **WARNINGS:**
+${warnings.map(warning => `• ${warning}`).join('\n')}
+
+` : ''}🚀 **NEXT STEPS:**
+${guessed.length > 0
+  ? `• commit_changes would refuse this description: the type of ${guessed.map(({ change }) => change.n).join(', ')} was guessed
+• Confirm the types with the user, then name each component next to its type or pass an explicit changes list`
+  : `• Confirm these changes with the user
+• Run commit_changes with the same description, or pass a corrected explicit changes list`}`
+      }]
+    };
+  }
+};
+
+export const previewCommitSchema = {
+  changesDescription: z.string().describe("Natural language description of the changes, exactly as it would be passed to commit_changes")
+};
+
+export const previewCommitOutputSchema = {
+  committable: z.boolean().describe("Whether commit_changes would accept this description"),
+  changes: z.array(z.object({
+    action: z.string(),
+    name: z.string(),
+    type: z.string(),
+    module: z.string(),
+    confidence: z.enum(['pattern', 'fallback', 'quoted-default']).describe("pattern: name next to a type keyword; fallback: capitalized word; quoted-default: quoted name assumed to be an ApexClass"),
+    keyword: z.string().optional().describe("Type keyword the metadata type was inferred from")
+  })),
+  warnings: z.array(z.string())
+};
+
+export type PreviewCommitOutput = z.infer<z.ZodObject<typeof previewCommitOutputSchema>>;
@@ -1,14 +1,22 @@
 import { z } from "zod";
+import { hasRole } from "../auth/roles.js";
+import { CopadoAuthError, CopadoValidationError } from "../copado/errors.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { confirmationSchema, toolErrorSchema, toToolError } from "./ToolResult.js";
 
 export interface PromoteInput {
   userStoryIds: string;
+  sourceEnvironment?: string;
   executeDeployment?: boolean;
   deploymentDryRun?: boolean;
+  targetEnvironment?: string;
+  confirmationToken?: string;
+  idempotencyKey?: string;
   apiKey?: string;
 }
 
 // Helper function to parse user story IDs from various formats
-function parseUserStoryIds(userStoryIds: string): string[] {
+export function parseUserStoryIds(userStoryIds: string): string[] {
   // Handle different formats:
   // "a0u1v00001fGK5PAAW"
   // "a0u1v00001fGK5PAAW, a0u1v00001fGK5PBAW"
@@ -28,88 +36,101 @@ function parseUserStoryIds(userStoryIds: string): string[] {
 export const promoteTool = {
   name: "promote_user_story",
   description: "Create a promotion for user stories in Copado. Optionally execute deployment automatically.",
+  annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
   
-  async execute({ userStoryIds, executeDeployment = false, deploymentDryRun = false, apiKey }: PromoteInput) {
-    try {
-      // Use provided API key or fall back to environment variable
-      const authToken = process.env.COPADO_API_KEY;
-      
-      if (!authToken) {
-        throw new Error("API key is required. Provide it as a parameter or set COPADO_API_KEY environment variable.");
-      }
+  async execute({ userStoryIds, sourceEnvironment, executeDeployment = false, deploymentDryRun = false, targetEnvironment, confirmationToken, apiKey }: PromoteInput, context: ToolContext) {
+    // Parse user story IDs into array format
+    const parsedUserStoryIds = parseUserStoryIds(userStoryIds);
 
-      // Parse user story IDs into array format
-      const parsedUserStoryIds = parseUserStoryIds(userStoryIds);
+    try {
+      // Resolve the key: session key, then Worker secret; an argument must match it
+      const client = createClient(context, apiKey);
       
       if (parsedUserStoryIds.length === 0) {
         throw new Error("No valid user story IDs provided. Please provide at least one user story ID.");
       }
 
-      // Use the Copado promotion webhook endpoint
-      const webhookUrl = `https://app-api.copado.com/json/v1/webhook/mcwebhook/promotion`;
-      
-      // Use the correct payload format
-      const payload = {
-        action: "Promotion",
-        key: authToken,
-        payload: {
-          userStoryIds: parsedUserStoryIds,
-          executeDeployment: executeDeployment,
-          deploymentDryRun: deploymentDryRun,
-          sourceEnvironmentId: "a0c8c00000LpAxEAAV"
-        }
-      };
+      // Accept either a registered name (e.g. "dev1") or a Salesforce ID; without
+      // one, promote from the only unprotected registered environment
+      const source = sourceEnvironment?.trim() || (await context.environments.defaultSource())?.name;
+      if (!source) {
+        throw new CopadoValidationError(
+          'sourceEnvironment is required: more than one unprotected environment (or none) is registered, so the source cannot be derived. Pass a registered name or Salesforce Environment ID.'
+        );
+      }
+      const sourceEnvironmentId = await context.environments.resolve(source);
 
-      console.log('🔍 Making promotion request to Copado API:');
-      console.log('URL:', webhookUrl);
-      console.log('Headers:', {
-        'Content-Type': 'application/json',
-        'copado-webhook-key': `${authToken.substring(0, 10)}...`,
-        'User-Agent': 'Copado-MCP-Server/1.0.0'
-      });
-      console.log('Payload:', JSON.stringify({
-        action: payload.action,
-        key: `${authToken.substring(0, 10)}...`,
-        payload: {
-          userStoryIds: parsedUserStoryIds,
-          executeDeployment: executeDeployment,
-          deploymentDryRun: deploymentDryRun,
-          sourceEnvironmentId: "a0c8c00000LpAxEAAV"
+      // Real deployments to protected environments need a confirmed second call;
+      // validation-only runs never change the target org
+      if (executeDeployment && !deploymentDryRun) {
+        if (!hasRole(context.role, 'release-manager')) {
+          throw new CopadoAuthError(
+            `Promoting with executeDeployment requires the release-manager role (you are ${context.role}). Promote without deploying, or run a validation with deploymentDryRun.`
+          );
         }
-      }, null, 2));
-
-      // Make the POST request
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'copado-webhook-key': authToken,
-          'User-Agent': 'Copado-MCP-Server/1.0.0'
-        },
-        body: JSON.stringify(payload)
-      });
 
-      console.log('📥 Promotion response status:', response.status, response.statusText);
-      
-      const responseText = await response.text();
-      console.log('📥 Promotion response body:', responseText);
+        const confirmation = await context.deployments.authorize({
+          tool: promoteTool.name,
+          actor: context.identity?.subject,
+          targetEnvironment,
+          sourceEnvironmentId,
+          details: { userStoryIds: [...parsedUserStoryIds].sort(), sourceEnvironmentId }
+        }, confirmationToken);
 
-      if (!response.ok) {
-        throw new Error(`Copado promotion request failed: ${response.status} ${response.statusText}. Response: ${responseText}`);
-      }
+        if (confirmation) {
+          const structuredContent: PromoteOutput = {
+            success: false,
+            status: 'ConfirmationRequired',
+            userStoryIds: parsedUserStoryIds,
+            sourceEnvironmentId,
+            executeDeployment,
+            deploymentDryRun,
+            confirmation
+          };
+
+          return {
+            structuredContent,
+            content: [{
+              type: "text" as const,
+              text: `🛑 Deployment needs confirmation – nothing was promoted or deployed.
+
+🛡️ **PROTECTED ENVIRONMENT**
+• Environment: ${confirmation.environment}
+• Reason: ${confirmation.reason}
+• User Stories: ${parsedUserStoryIds.join(', ')}
 
-      let result;
-      try {
-        result = JSON.parse(responseText);
-      } catch (parseError) {
-        result = { message: responseText, status: 'completed' };
+✋ **TO PROCEED:**
+• Ask the user to confirm this deployment explicitly
+• Then call promote_user_story again with the same arguments and confirmationToken "${confirmation.token}"
+• The token expires at ${confirmation.expiresAt} and can be used once
+
+💡 **Tip:** Set deploymentDryRun: true to validate without confirmation.`
+            }]
+          };
+        }
       }
 
+      const result = await client.promote({
+        userStoryIds: parsedUserStoryIds,
+        executeDeployment: executeDeployment,
+        deploymentDryRun: deploymentDryRun,
+        sourceEnvironmentId: sourceEnvironmentId
+      });
+
       // Extract promotion information from response
       const jobExecution = result.jobExecution || {};
       const promotionJobExecutionId = jobExecution.Id;
       const promotionId = result.promotionId || jobExecution['copado__Promotion__c'];
       const status = jobExecution['copado__Status__c'] || 'Submitted';
+
+      // Later deployments of the promotion find their destination through its source
+      if (promotionId) {
+        try {
+          await context.deployments.recordPromotion(promotionId, sourceEnvironmentId);
+        } catch (error) {
+          context.logger.error('Failed to record the source environment of a promotion', { promotionId, error });
+        }
+      }
       
       // Extract deployment information if executeDeployment was true
       const deploymentJobExecution = result.deploymentJobExecution || {};
@@ -142,7 +163,21 @@ export const promoteTool = {
 • Or use "deploy promotion ${promotionId} as validation" for validation-only`;
       }
 
+      const structuredContent: PromoteOutput = {
+        success: true,
+        promotionId,
+        promotionJobExecutionId,
+        deploymentJobExecutionId,
+        deploymentId,
+        status,
+        userStoryIds: parsedUserStoryIds,
+        sourceEnvironmentId,
+        executeDeployment,
+        deploymentDryRun
+      };
+
       return {
+        structuredContent,
         content: [{
           type: "text" as const,
           text: `✅ User Story promotion ${executeDeployment ? 'and deployment ' : ''}initiated successfully!
@@ -150,6 +185,7 @@ export const promoteTool = {
 🎯 **PROMOTION SUMMARY**
 • Promotion ID: ${promotionId}
 • Promotion Job ID: ${promotionJobExecutionId}
+• Source Environment: ${source === sourceEnvironmentId ? sourceEnvironmentId : `${source} (${sourceEnvironmentId})`}
 • Status: ${status}
 • Execute Deployment: ${executeDeployment}
 • Deployment Dry Run: ${deploymentDryRun}${deploymentInfo}
@@ -167,12 +203,27 @@ ${nextSteps}
       };
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      
-      return {
-        content: [{
-          type: "text" as const,
-          text: `❌ Failed to create promotion!
+      return promoteTool.failure({ userStoryIds, sourceEnvironment, executeDeployment, deploymentDryRun }, error);
+    }
+  },
+
+  // Error result for a promotion that did not go through
+  failure({ userStoryIds, sourceEnvironment, executeDeployment = false, deploymentDryRun = false }: PromoteInput, error: unknown) {
+    const toolError = toToolError(error);
+    const errorMessage = toolError.message;
+    const structuredContent: PromoteOutput = {
+      success: false,
+      userStoryIds: parseUserStoryIds(userStoryIds),
+      executeDeployment,
+      deploymentDryRun,
+      error: toolError
+    };
+
+    return {
+      structuredContent,
+      content: [{
+        type: "text" as const,
+        text: `❌ Failed to create promotion!
 
 Error: ${errorMessage}
 
@@ -181,22 +232,45 @@ Error: ${errorMessage}
 • Check that User Stories exist and are ready for promotion
 • Ensure your webhook key has promotion permissions
 • Verify User Stories are not already in an active promotion
+• Check the source environment${sourceEnvironment ? ` "${sourceEnvironment}"` : ''} with "list environments"
 
 📝 **User Stories attempted:**
 ${userStoryIds}
 
 💡 **Tip:** Ensure User Stories have committed changes and are in a promotable state`
-        }],
-        isError: true
-      };
-    }
+      }],
+      isError: true
+    };
   }
 };
 
 // Schema definition for the tool
 export const promoteSchema = {
   userStoryIds: z.string().describe("User Story IDs to include in the promotion (comma-separated or single ID)"),
+  sourceEnvironment: z.string().optional().describe("Environment to promote from: a registered name such as 'dev1' or 'qa' (see list_environments), or a Salesforce Environment ID. Defaults to the only unprotected registered environment"),
   executeDeployment: z.boolean().optional().default(false).describe("Whether to automatically execute deployment after promotion (default: false)"),
   deploymentDryRun: z.boolean().optional().default(false).describe("Whether to run as validation-only deployment when executeDeployment is true (default: false)"),
-  apiKey: z.string().optional().describe("Copado webhook key for authentication (optional if COPADO_API_KEY env var is set)")
-};
\ No newline at end of file
+  targetEnvironment: z.string().optional().describe("Environment you expect the deployment to go to (registered name or Salesforce ID). The destination is the one registered for the source environment (promotesTo); a different target is refused"),
+  confirmationToken: z.string().optional().describe("Token from a previous ConfirmationRequired result, passed only after the user confirmed the deployment"),
+  idempotencyKey: z.string().optional().describe("Key identifying this promotion, e.g. a UUID. Retrying with the same key returns the original result instead of promoting again (kept for 24 hours). Calls without a key always run"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+// Structured result, so clients can chain promote → deploy → status without parsing text
+export const promoteOutputSchema = {
+  success: z.boolean(),
+  promotionId: z.string().optional().describe("Promotion ID to pass to deploy_promotion"),
+  promotionJobExecutionId: z.string().optional(),
+  deploymentJobExecutionId: z.string().optional().describe("Job Execution ID of the deployment, when executeDeployment was true"),
+  deploymentId: z.string().optional(),
+  status: z.string().optional(),
+  userStoryIds: z.array(z.string()),
+  sourceEnvironmentId: z.string().optional(),
+  executeDeployment: z.boolean(),
+  deploymentDryRun: z.boolean(),
+  replayed: z.boolean().optional().describe("True when this is the stored result of an earlier call; Copado was not called again"),
+  confirmation: confirmationSchema.optional().describe("Present when the deployment was held for confirmation"),
+  error: toolErrorSchema.optional()
+};
+
+export type PromoteOutput = z.infer<z.ZodObject<typeof promoteOutputSchema>>;
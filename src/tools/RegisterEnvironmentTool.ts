@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { environmentOutputSchema } from "./ListEnvironmentsTool.js";
+import type { ToolContext } from "./ToolContext.js";
+import { toolErrorSchema, toToolError } from "./ToolResult.js";
+
+export interface RegisterEnvironmentInput {
+  name: string;
+  environmentId: string;
+  description?: string;
+  protected?: boolean;
+  promotesTo?: string;
+}
+
+export const registerEnvironmentTool = {
+  name: "register_environment",
+  description: "Register a friendly name (e.g. dev1, qa) for a Copado environment ID so it can be used as a promotion source, and the environment its promotions deploy to. Protected environments require confirmation before deployments; they and environments that promote to them cannot be replaced afterwards",
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+
+  async execute({ name, environmentId, description, protected: isProtected = false, promotesTo }: RegisterEnvironmentInput, context: ToolContext) {
+    try {
+      const environment = await context.environments.register(name, environmentId, description, isProtected, promotesTo);
+      const structuredContent: RegisterEnvironmentOutput = { success: true, environment };
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `✅ Environment registered!
+
+🌐 **${environment.name}** → ${environment.environmentId}${environment.description ? `\n📝 ${environment.description}` : ''}${environment.protected ? '\n🔒 Protected: deployments need explicit confirmation' : ''}${environment.promotesTo ? `\n➡️ Promotions deploy to ${environment.promotesTo}` : ''}
+
+💡 Promote from it with sourceEnvironment "${environment.name}".`
+        }]
+      };
+    } catch (error) {
+      const toolError = toToolError(error);
+      const errorMessage = toolError.message;
+      const structuredContent: RegisterEnvironmentOutput = { success: false, error: toolError };
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `❌ Failed to register environment!
+
+Error: ${errorMessage}`
+        }],
+        isError: true
+      };
+    }
+  }
+};
+
+// Schema definition for the tool
+export const registerEnvironmentSchema = {
+  name: z.string().describe("Friendly name for the environment, e.g. 'dev1', 'qa' or 'uat'"),
+  environmentId: z.string().describe("Salesforce ID of the Copado Environment record (15 or 18 characters)"),
+  description: z.string().optional().describe("Optional description, e.g. 'Integration sandbox'"),
+  protected: z.boolean().optional().default(false).describe("Require explicit confirmation for deployments to this environment (default: false)"),
+  promotesTo: z.string().optional().describe("Registered name or ID of the environment promotions from this one deploy to, e.g. 'uat' for 'qa'. Needed to deploy its promotions while any environment is protected")
+};
+
+export const registerEnvironmentOutputSchema = {
+  success: z.boolean(),
+  environment: environmentOutputSchema.optional(),
+  error: toolErrorSchema.optional()
+};
+
+export type RegisterEnvironmentOutput = z.infer<z.ZodObject<typeof registerEnvironmentOutputSchema>>;
@@ -0,0 +1,438 @@
+import { z } from "zod";
+import { hasRole, type Role } from "../auth/roles.js";
+import { CopadoAuthError, CopadoValidationError } from "../copado/errors.js";
+import { COMMIT_ACTIONS, type CommitAction } from "../copado/models.js";
+import type { ConfirmationRequired } from "../policy/DeploymentGuard.js";
+import {
+  RELEASE_STEPS,
+  type Release,
+  type ReleasePlan,
+  type ReleaseStep,
+  type ReleaseStepName,
+  type StepStatus
+} from "../storage/ReleaseStore.js";
+import { type ChangeInput, commitSchema, commitTool } from "./CommitTool.js";
+import { deployPromotionTool } from "./DeployPromotionTool.js";
+import { parseUserStoryIds, promoteTool } from "./PromoteTool.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { confirmationSchema, toolErrorSchema, toToolError } from "./ToolResult.js";
+
+export interface ReleaseUserStoriesInput {
+  userStoryIds?: string;
+  steps?: ReleaseStepName[];
+  sourceEnvironment?: string;
+  targetEnvironment?: string;
+  promotionId?: string;
+  changesDescription?: string;
+  changes?: ChangeInput[];
+  sourcePaths?: string[];
+  packageXml?: string;
+  gitDiff?: string;
+  sourceAction?: CommitAction;
+  commitMessage?: string;
+  pollIntervalSeconds?: number;
+  maxWaitSeconds?: number;
+  apiKey?: string;
+}
+
+export interface ReleaseRunOptions {
+  apiKey?: string;
+  /** Approves a deploy step that is waiting for confirmation */
+  confirmationToken?: string;
+  pollIntervalMs: number;
+  maxWaitMs: number;
+}
+
+// Tool each step runs, as recorded in the operation history
+const STEP_TOOLS: Record<ReleaseStepName, string> = {
+  commit: commitTool.name,
+  promote: promoteTool.name,
+  deploy: deployPromotionTool.name
+};
+
+// Time on top of the job waits for starting the steps themselves
+const RELEASE_LEASE_MARGIN_MS = 5 * 60 * 1000;
+
+const STEP_EMOJI: Record<StepStatus, string> = {
+  'pending': '⏸️',
+  'running': '🔄',
+  'waiting': '⏳',
+  'confirmation-required': '🛑',
+  'completed': '✅',
+  'failed': '❌'
+};
+
+// Deploying is release-manager work, whichever tool starts it
+export function assertCanRunSteps(steps: ReleaseStep[], role: Role): void {
+  const deploys = steps.some(step => step.name === 'deploy' && step.status !== 'completed');
+  if (deploys && !hasRole(role, 'release-manager')) {
+    throw new CopadoAuthError(
+      `The deploy step requires the release-manager role (you are ${role}). Run the release without the deploy step.`
+    );
+  }
+}
+
+// Run the step's tool and return its structured result. Results go into the
+// operation history as if the tool had been called directly.
+async function startStep(
+  step: ReleaseStepName,
+  release: Release,
+  context: ToolContext,
+  options: ReleaseRunOptions
+): Promise<Record<string, unknown>> {
+  const { plan, outputs } = release;
+  let result: { structuredContent: Record<string, unknown> };
+  switch (step) {
+    case 'commit':
+      result = await commitTool.execute({ userStoryId: plan.userStoryIds[0], ...plan.commit, apiKey: options.apiKey }, context);
+      break;
+    case 'promote':
+      result = await promoteTool.execute({
+        userStoryIds: plan.userStoryIds.join(','),
+        sourceEnvironment: plan.sourceEnvironment,
+        apiKey: options.apiKey
+      }, context);
+      break;
+    case 'deploy':
+      result = await deployPromotionTool.execute({
+        promotionId: outputs.promotionId ?? '',
+        targetEnvironment: plan.targetEnvironment,
+        confirmationToken: options.confirmationToken,
+        apiKey: options.apiKey
+      }, context);
+      break;
+  }
+
+  try {
+    await context.history.recordToolResult(STEP_TOOLS[step], result.structuredContent, context.identity?.subject);
+  } catch (error) {
+    context.logger.error('Failed to record release step in operation history', { step, error });
+  }
+  return result.structuredContent;
+}
+
+function stringField(structured: Record<string, unknown>, key: string): string | undefined {
+  const value = structured[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Run the release's unfinished steps in order, waiting for each step's job.
+// State is saved after every transition; the returned release shows where it stopped.
+export async function runRelease(
+  release: Release,
+  context: ToolContext,
+  options: ReleaseRunOptions
+): Promise<{ release: Release; confirmation?: ConfirmationRequired }> {
+  assertCanRunSteps(release.steps, context.role);
+  // Held while the steps run: every step may wait up to maxWaitMs for its job
+  const leaseMs = release.steps.length * options.maxWaitMs + RELEASE_LEASE_MARGIN_MS;
+  if (!(await context.releases.acquire(release.id, leaseMs))) {
+    throw new CopadoValidationError(`Release ${release.id} is already running`);
+  }
+
+  let progress = 0;
+  const now = () => new Date().toISOString();
+  const save = () => context.releases.save(release);
+
+  try {
+    for (const step of release.steps) {
+      if (step.status === 'completed') {
+        continue;
+      }
+      release.status = 'running';
+      release.currentStep = step.name;
+
+      try {
+        // A step whose job outlived the last wait keeps waiting on that job;
+        // anything else is started (again) from scratch
+        const resumeJob = (step.status === 'waiting' || step.status === 'running') && step.jobExecutionId;
+        if (!resumeJob) {
+          Object.assign(step, { status: 'running', startedAt: now(), jobExecutionId: undefined, finishedAt: undefined, error: undefined });
+          await save();
+          await context.reportProgress?.(++progress, `Release ${release.id}: starting ${step.name}`);
+
+          const structured = await startStep(step.name, release, context, options);
+          if (structured.status === 'ConfirmationRequired') {
+            step.status = 'confirmation-required';
+            release.status = 'paused';
+            await save();
+            return { release, confirmation: structured.confirmation as ConfirmationRequired };
+          }
+          if (structured.success !== true) {
+            const error = structured.error as { message?: string } | undefined;
+            throw new Error(error?.message ?? `${STEP_TOOLS[step.name]} did not succeed`);
+          }
+
+          if (step.name === 'commit') {
+            release.outputs.commitId = stringField(structured, 'commitId');
+          } else if (step.name === 'promote') {
+            release.outputs.promotionId = stringField(structured, 'promotionId');
+            if (!release.outputs.promotionId) {
+              throw new Error('Copado did not return a promotion ID, so the promotion cannot be deployed');
+            }
+          } else {
+            release.outputs.deploymentId = stringField(structured, 'deploymentId');
+          }
+          step.jobExecutionId = stringField(structured, step.name === 'promote' ? 'promotionJobExecutionId' : 'jobExecutionId');
+          await save();
+        }
+
+        if (step.jobExecutionId) {
+          const jobExecutionId = step.jobExecutionId;
+          const result = await context.jobs.wait(jobExecutionId, {
+            client: createClient(context, options.apiKey),
+            pollIntervalMs: options.pollIntervalMs,
+            maxWaitMs: options.maxWaitMs,
+            onStatusChange: (change) => context.reportProgress?.(++progress, `Release ${release.id}: ${step.name} ${change.status}`)
+          });
+
+          // The job may still succeed, so keep waiting on it on resume instead of starting the step again
+          if (result.pollError) {
+            step.status = 'waiting';
+            step.error = `Could not check job ${jobExecutionId}: ${result.pollError.message}`;
+            release.status = 'paused';
+            await save();
+            return { release };
+          }
+          await context.history.updateJobStatus(jobExecutionId, result.status, result.errorMessage);
+
+          if (result.timedOut) {
+            step.status = 'waiting';
+            release.status = 'paused';
+            await save();
+            return { release };
+          }
+          if (result.state !== 'completed') {
+            throw new Error(result.errorMessage ?? `Job ${jobExecutionId} finished with status ${result.status}`);
+          }
+        }
+
+        step.status = 'completed';
+        step.finishedAt = now();
+        step.error = undefined;
+        await save();
+      } catch (error) {
+        step.status = 'failed';
+        step.finishedAt = now();
+        step.error = error instanceof Error ? error.message : String(error);
+        release.status = 'failed';
+        await save();
+        context.logger.warn('Release step failed', { releaseId: release.id, step: step.name, error });
+        return { release };
+      }
+    }
+
+    release.status = 'completed';
+    release.currentStep = undefined;
+    await save();
+    return { release };
+  } finally {
+    await context.releases.relinquish(release.id);
+  }
+}
+
+// Structured and text result describing where the release stands
+export function releaseResult(release: Release, confirmation?: ConfirmationRequired) {
+  const structuredContent: ReleaseOutput = {
+    success: release.status === 'completed',
+    releaseId: release.id,
+    status: release.status,
+    currentStep: release.currentStep,
+    userStoryIds: release.plan.userStoryIds,
+    ...release.outputs,
+    steps: release.steps,
+    confirmation
+  };
+
+  const stepsDisplay = release.steps.map(step =>
+    `• ${STEP_EMOJI[step.status]} ${step.name} – ${step.status}${step.jobExecutionId ? ` (job ${step.jobExecutionId})` : ''}${step.error ? `\n  ❌ ${step.error}` : ''}`
+  ).join('\n');
+  const ids = [
+    release.outputs.commitId ? `• Commit ID: ${release.outputs.commitId}` : '',
+    release.outputs.promotionId ? `• Promotion ID: ${release.outputs.promotionId}` : '',
+    release.outputs.deploymentId ? `• Deployment ID: ${release.outputs.deploymentId}` : ''
+  ].filter(Boolean).join('\n');
+
+  const step = release.currentStep;
+  let headline: string;
+  let nextSteps: string;
+  if (release.status === 'completed') {
+    headline = '✅ Release completed!';
+    nextSteps = '• Every step finished successfully; verify the changes in the target environment';
+  } else if (confirmation) {
+    headline = '🛑 Release paused – the deployment needs confirmation';
+    nextSteps = `• Ask the user to confirm the deployment to ${confirmation.environment} (${confirmation.reason})
+• Then call resume_release with releaseId "${release.id}" and confirmationToken "${confirmation.token}"
+• The token expires at ${confirmation.expiresAt} and can be used once`;
+  } else if (release.status === 'paused' && release.steps.find(candidate => candidate.name === step)?.error) {
+    headline = `⏳ Release paused – the status of the ${step} job could not be checked`;
+    nextSteps = `• Fix the problem shown above (e.g. the webhook key); the job itself may still be running
+• Then call resume_release with releaseId "${release.id}" to keep waiting for the same ${step} job`;
+  } else if (release.status === 'paused') {
+    headline = `⏳ Release paused – the ${step} job is still running`;
+    nextSteps = `• Call resume_release with releaseId "${release.id}" to keep waiting for the ${step} job`;
+  } else {
+    headline = `❌ Release failed at the ${step} step`;
+    nextSteps = `• Fix the problem shown above
+• Then call resume_release with releaseId "${release.id}" to retry from the ${step} step; completed steps are not repeated`;
+  }
+
+  return {
+    structuredContent,
+    content: [{
+      type: "text" as const,
+      text: `${headline}
+
+🆔 **Release ID:** ${release.id}
+📝 **User Stories:** ${release.plan.userStoryIds.join(', ') || 'n/a'}
+
+📋 **STEPS:**
+${stepsDisplay}
+${ids ? `\n📦 **PRODUCED:**\n${ids}\n` : ''}
+🎯 **NEXT STEPS:**
+${nextSteps}`
+    }],
+    ...(release.status === 'failed' ? { isError: true } : {})
+  };
+}
+
+// Error result for a release that could not be started or resumed
+export function releaseFailure(error: unknown, userStoryIds: string[] = [], releaseId?: string) {
+  const toolError = toToolError(error);
+  const structuredContent: ReleaseOutput = {
+    success: false,
+    releaseId,
+    userStoryIds,
+    steps: [],
+    error: toolError
+  };
+
+  return {
+    structuredContent,
+    content: [{
+      type: "text" as const,
+      text: `❌ Failed to run release!
+
+Error: ${toolError.message}
+
+🔍 **Troubleshooting:**
+• commit needs exactly one User Story and changes, sourcePaths, packageXml or changesDescription
+• promote needs sourceEnvironment unless exactly one unprotected environment is registered; deploy without promote needs promotionId
+• Use "list environments" to check environment names`
+    }],
+    isError: true
+  };
+}
+
+export const releaseUserStoriesTool = {
+  name: "release_user_stories",
+  description: "Run the commit → promote → deploy chain for user stories in one call, waiting for each Copado job to finish before starting the next step. Step state is saved, so a failed or paused release can be continued with resume_release.",
+  annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+
+  async execute(input: ReleaseUserStoriesInput, context: ToolContext) {
+    const {
+      steps = ['promote', 'deploy'],
+      sourceEnvironment,
+      targetEnvironment,
+      promotionId,
+      pollIntervalSeconds = 15,
+      maxWaitSeconds = 600,
+      apiKey
+    } = input;
+    const userStoryIds = parseUserStoryIds(input.userStoryIds ?? '');
+
+    try {
+      // Fail before anything runs if no webhook key is available
+      createClient(context, apiKey);
+
+      if ((steps.includes('commit') || steps.includes('promote')) && userStoryIds.length === 0) {
+        throw new CopadoValidationError('userStoryIds is required for the commit and promote steps');
+      }
+      if (steps.includes('commit')) {
+        if (userStoryIds.length !== 1) {
+          throw new CopadoValidationError('The commit step commits to exactly one User Story; pass a single userStoryIds value');
+        }
+        if (!input.changes?.length && !input.sourcePaths?.length && !input.packageXml && !input.gitDiff && !input.changesDescription) {
+          throw new CopadoValidationError('The commit step needs changes, sourcePaths, packageXml, gitDiff or changesDescription');
+        }
+      }
+      if (steps.includes('promote') && !sourceEnvironment && !await context.environments.defaultSource()) {
+        throw new CopadoValidationError('The promote step needs sourceEnvironment when more than one unprotected environment (or none) is registered');
+      }
+      if (steps.includes('deploy') && !steps.includes('promote') && !promotionId) {
+        throw new CopadoValidationError('The deploy step needs promotionId when the release does not promote');
+      }
+      assertCanRunSteps(steps.map(name => ({ name, status: 'pending' })), context.role);
+
+      const plan: ReleasePlan = {
+        userStoryIds,
+        sourceEnvironment,
+        targetEnvironment,
+        commit: steps.includes('commit')
+          ? {
+            changesDescription: input.changesDescription,
+            changes: input.changes,
+            sourcePaths: input.sourcePaths,
+            packageXml: input.packageXml,
+            gitDiff: input.gitDiff,
+            sourceAction: input.sourceAction,
+            commitMessage: input.commitMessage
+          }
+          : undefined
+      };
+      const release = await context.releases.create(plan, steps, { promotionId }, context.identity?.subject);
+
+      const outcome = await runRelease(release, context, {
+        apiKey,
+        pollIntervalMs: pollIntervalSeconds * 1000,
+        maxWaitMs: maxWaitSeconds * 1000
+      });
+      return releaseResult(outcome.release, outcome.confirmation);
+
+    } catch (error) {
+      return releaseFailure(error, userStoryIds);
+    }
+  }
+};
+
+export const releaseUserStoriesSchema = {
+  userStoryIds: z.string().optional().describe("User Story IDs to release (comma-separated or single ID). Required for the commit and promote steps; commit takes exactly one"),
+  steps: z.array(z.enum(RELEASE_STEPS)).min(1).optional().default(['promote', 'deploy']).describe("Steps to run, always in commit → promote → deploy order (default: promote, deploy)"),
+  sourceEnvironment: z.string().optional().describe("Environment to promote from (registered name or Salesforce ID); defaults to the only unprotected registered environment"),
+  targetEnvironment: z.string().optional().describe("Environment you expect the deploy step to deploy to (registered name or Salesforce ID). The destination comes from the source environment's promotesTo; a protected destination pauses the release for confirmation"),
+  promotionId: z.string().optional().describe("Existing promotion to deploy when the release has a deploy step but no promote step"),
+  changesDescription: commitSchema.changesDescription,
+  changes: commitSchema.changes,
+  sourcePaths: commitSchema.sourcePaths,
+  packageXml: commitSchema.packageXml,
+  gitDiff: commitSchema.gitDiff,
+  sourceAction: z.enum(COMMIT_ACTIONS).optional().describe("Action applied to components from sourcePaths and packageXml (default: Add)"),
+  commitMessage: commitSchema.commitMessage,
+  pollIntervalSeconds: z.number().int().min(5).max(300).optional().default(15).describe("Seconds between status checks of each step's job (default: 15)"),
+  maxWaitSeconds: z.number().int().min(10).max(3600).optional().default(600).describe("Maximum seconds to wait for each step's job before pausing the release (default: 600)"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+// Structured result shared by release_user_stories and resume_release
+export const releaseOutputSchema = {
+  success: z.boolean().describe("True once every step has completed"),
+  releaseId: z.string().optional().describe("Release ID to pass to resume_release"),
+  status: z.enum(['running', 'paused', 'failed', 'completed']).optional(),
+  currentStep: z.enum(RELEASE_STEPS).optional().describe("Step the release stopped at"),
+  userStoryIds: z.array(z.string()),
+  commitId: z.string().optional(),
+  promotionId: z.string().optional(),
+  deploymentId: z.string().optional(),
+  steps: z.array(z.object({
+    name: z.enum(RELEASE_STEPS),
+    status: z.enum(['pending', 'running', 'waiting', 'confirmation-required', 'completed', 'failed']),
+    jobExecutionId: z.string().optional(),
+    startedAt: z.string().optional(),
+    finishedAt: z.string().optional(),
+    error: z.string().optional()
+  })),
+  confirmation: confirmationSchema.optional().describe("Present when the deploy step is held for confirmation"),
+  error: toolErrorSchema.optional()
+};
+
+export type ReleaseOutput = z.infer<z.ZodObject<typeof releaseOutputSchema>>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { CopadoNotFoundError, CopadoValidationError } from "../copado/errors.js";
+import { releaseFailure, releaseResult, runRelease } from "./ReleaseUserStoriesTool.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+
+export interface ResumeReleaseInput {
+  releaseId?: string;
+  confirmationToken?: string;
+  pollIntervalSeconds?: number;
+  maxWaitSeconds?: number;
+  apiKey?: string;
+}
+
+export const resumeReleaseTool = {
+  name: "resume_release",
+  description: "Continue a release started by release_user_stories from the step where it stopped: retry a failed step, keep waiting for a job that was still running, or deploy after the user confirmed a protected deployment. Completed steps are not repeated.",
+  annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+
+  async execute({ releaseId, confirmationToken, pollIntervalSeconds = 15, maxWaitSeconds = 600, apiKey }: ResumeReleaseInput, context: ToolContext) {
+    try {
+      // Fail before anything runs if no webhook key is available
+      createClient(context, apiKey);
+
+      const release = releaseId
+        ? await context.releases.get(releaseId)
+        : await context.releases.latestUnfinished(context.identity?.subject);
+      if (!release) {
+        throw new CopadoNotFoundError(releaseId
+          ? `Release ${releaseId} was not found`
+          : 'You have no unfinished release to resume; pass the releaseId of another caller\'s release to continue it');
+      }
+      if (release.status === 'completed') {
+        throw new CopadoValidationError(`Release ${release.id} has already completed; start a new one with release_user_stories`);
+      }
+
+      const outcome = await runRelease(release, context, {
+        apiKey,
+        confirmationToken,
+        pollIntervalMs: pollIntervalSeconds * 1000,
+        maxWaitMs: maxWaitSeconds * 1000
+      });
+      return releaseResult(outcome.release, outcome.confirmation);
+
+    } catch (error) {
+      return releaseFailure(error, [], releaseId);
+    }
+  }
+};
+
+export const resumeReleaseSchema = {
+  releaseId: z.string().optional().describe("Release ID returned by release_user_stories (default: the most recent unfinished release you started)"),
+  confirmationToken: z.string().optional().describe("Token from a release paused for confirmation, passed only after the user confirmed the deployment"),
+  pollIntervalSeconds: z.number().int().min(5).max(300).optional().default(15).describe("Seconds between status checks of each step's job (default: 15)"),
+  maxWaitSeconds: z.number().int().min(10).max(3600).optional().default(600).describe("Maximum seconds to wait for each step's job before pausing the release again (default: 600)"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
@@ -0,0 +1,48 @@
+import type { Identity } from "../auth/bearerTokens.js";
+import type { Role } from "../auth/roles.js";
+import { CopadoClient } from "../copado/CopadoClient.js";
+import { type CredentialSources, resolveApiKey } from "../copado/credentials.js";
+import { type EndpointProfiles, resolveEndpoint, webhookBaseUrl } from "../copado/endpoints.js";
+import type { JobWatcher } from "../jobs/JobWatcher.js";
+import type { Logger } from "../logging/Logger.js";
+import type { DeploymentGuard } from "../policy/DeploymentGuard.js";
+import type { EnvironmentRegistry } from "../storage/EnvironmentRegistry.js";
+import type { OperationHistory } from "../storage/OperationHistory.js";
+import type { ReleaseStore } from "../storage/ReleaseStore.js";
+
+// Per-session state handed to every tool execution by MyMCP
+export interface ToolContext {
+  credentials: CredentialSources;
+  /** Configured endpoint profiles; every profile set includes "default" */
+  endpoints: EndpointProfiles;
+  /** Profile chosen for this session, when not the Worker's default */
+  endpointProfile?: string;
+  environments: EnvironmentRegistry;
+  jobs: JobWatcher;
+  history: OperationHistory;
+  deployments: DeploymentGuard;
+  releases: ReleaseStore;
+  /** Authenticated caller, when the server requires bearer tokens */
+  identity?: Identity;
+  /** What the caller may do; tools check it for arguments that need more privilege */
+  role: Role;
+  /** Logger carrying this call's correlation ID */
+  logger: Logger;
+  /** Sends an MCP progress notification when the caller supplied a progress token */
+  reportProgress?: (progress: number, message: string) => Promise<void>;
+  /** Answers Copado webhook calls instead of the network, e.g. the mock backend */
+  fetch?: typeof fetch;
+}
+
+// Build a Copado client using the key and endpoint profile resolved for this call
+export function createClient(context: ToolContext, apiKey?: string): CopadoClient {
+  const credential = resolveApiKey(apiKey, context.credentials);
+  const { profile } = resolveEndpoint(context.endpoints, context.endpointProfile);
+  return new CopadoClient({
+    apiKey: credential.apiKey,
+    baseUrl: webhookBaseUrl(profile),
+    headers: profile.headers,
+    logger: context.logger,
+    fetch: context.fetch,
+  });
+}
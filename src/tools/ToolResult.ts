@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { CopadoError } from "../copado/errors.js";
+import { JOB_STATES } from "../copado/jobStatus.js";
+
+// Error details included in structuredContent when a tool call fails. Every tool
+// with an output schema must return structured content, even on failure.
+export const toolErrorSchema = z.object({
+  kind: z.string().describe("Error category: auth, validation, not-found, transient or unknown"),
+  message: z.string()
+});
+
+export type ToolError = z.infer<typeof toolErrorSchema>;
+
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof CopadoError) {
+    return { kind: error.kind, message: error.message };
+  }
+  return {
+    kind: 'unknown',
+    message: error instanceof Error ? error.message : 'Unknown error occurred'
+  };
+}
+
+// Returned instead of deploying when the target environment is protected
+export const confirmationSchema = z.object({
+  token: z.string().describe("Pass back as confirmationToken, with otherwise identical arguments, once the user has confirmed"),
+  expiresAt: z.string(),
+  environment: z.string().describe("Protected environment(s) the deployment may reach"),
+  reason: z.string()
+});
+
+// Step results of a job execution, in step order
+export const jobStepSchema = z.object({
+  name: z.string(),
+  type: z.string().optional(),
+  order: z.number().optional(),
+  status: z.string().describe("Step status as reported by Copado"),
+  state: z.enum(JOB_STATES),
+  errorMessage: z.string().optional()
+});
+
+// Records a job works on, parsed from its lookups and copado__DataJson__c
+export const jobDataSchema = z.object({
+  userStoryIds: z.array(z.string()),
+  userStoryBranches: z.array(z.string()),
+  promotionId: z.string().optional(),
+  deploymentId: z.string().optional(),
+  promotionBranch: z.string().optional(),
+  sourceBranch: z.string().optional(),
+  destinationBranch: z.string().optional()
+});
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { JOB_STATES, type JobState } from "../copado/jobStatus.js";
+import type { JobWaitResult } from "../jobs/JobWatcher.js";
+import { createClient, type ToolContext } from "./ToolContext.js";
+import { toolErrorSchema, toToolError } from "./ToolResult.js";
+
+export interface WaitForJobInput {
+  jobExecutionId: string;
+  pollIntervalSeconds?: number;
+  maxWaitSeconds?: number;
+  apiKey?: string;
+}
+
+const STATE_EMOJI: Record<JobState, string> = {
+  'queued': '⏳',
+  'in-progress': '🔄',
+  'completed': '✅',
+  'failed': '❌',
+  'cancelled': '🚫',
+  'unknown': '❔'
+};
+
+export const waitForJobTool = {
+  name: "wait_for_job",
+  description: "Wait for a Copado job execution to finish, polling its status server-side and reporting progress on every status change",
+  annotations: { readOnlyHint: true, openWorldHint: true },
+
+  async execute({ jobExecutionId, pollIntervalSeconds = 15, maxWaitSeconds = 600, apiKey }: WaitForJobInput, context: ToolContext) {
+    try {
+      // Resolve the key: session key, then Worker secret; an argument must match it
+      const client = createClient(context, apiKey);
+
+      const result: JobWaitResult = await context.jobs.wait(jobExecutionId, {
+        client,
+        pollIntervalMs: pollIntervalSeconds * 1000,
+        maxWaitMs: maxWaitSeconds * 1000,
+        onStatusChange: (change, current) => context.reportProgress?.(
+          current.statusChanges.length,
+          `Job ${jobExecutionId}: ${current.statusChanges.map(c => c.status).join(' → ')}`
+        )
+      });
+
+      const timeline = result.statusChanges
+        .map(change => `• ${STATE_EMOJI[change.state]} ${change.status} (${change.at})`)
+        .join('\n');
+
+      // Polling failed; the job's own outcome is still unknown
+      if (result.pollError) {
+        const { pollError, ...watch } = result;
+        const structuredContent: WaitForJobOutput = { success: false, ...watch, error: pollError };
+        return {
+          structuredContent,
+          content: [{
+            type: "text" as const,
+            text: `❌ Could not check the status of job ${jobExecutionId}!
+
+Error: ${pollError.message}
+
+📈 **Last Known Status:**
+${timeline || '• No status received yet'}
+
+🔍 **Troubleshooting:**
+• The job itself may still be running; its outcome is unknown
+• Check your webhook key permissions and the Job Execution ID
+• Call "wait for job ${jobExecutionId}" again to resume polling`
+          }],
+          isError: true
+        };
+      }
+
+      const structuredContent: WaitForJobOutput = { success: true, ...result };
+
+      let headline: string;
+      if (result.timedOut) {
+        headline = `⏰ Job still ${result.status.toUpperCase()} after waiting ${maxWaitSeconds}s`;
+      } else {
+        headline = `${STATE_EMOJI[result.state]} Job finished with status ${result.status.toUpperCase()}`;
+      }
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `${headline}
+
+🆔 **Job Execution ID:** ${jobExecutionId}
+
+📈 **Status Timeline:**
+${timeline || '• No status received yet'}
+${result.errorMessage ? `\n❌ **Error Details:**\n${result.errorMessage}\n` : ''}${result.endedUnattendedAt
+  ? `\n⚠️ **Note:** The job ended at ${result.endedUnattendedAt} while no wait_for_job call was connected, so no notification was sent for it\n`
+  : ''}
+🎯 **Next Steps:**
+${result.timedOut
+  ? `• Polling has paused; call "wait for job ${jobExecutionId}" again to keep waiting`
+  : result.state === 'failed' || result.state === 'cancelled'
+    ? '• Review the error details, fix the issue and retry'
+    : '• The job is done; continue with the next step of the workflow'}`
+        }]
+      };
+
+    } catch (error) {
+      const toolError = toToolError(error);
+      const structuredContent: WaitForJobOutput = {
+        success: false,
+        jobExecutionId,
+        finished: false,
+        timedOut: false,
+        statusChanges: [],
+        error: toolError
+      };
+
+      return {
+        structuredContent,
+        content: [{
+          type: "text" as const,
+          text: `❌ Failed to wait for job!
+
+Error: ${toolError.message}
+
+🔍 **Troubleshooting:**
+• Verify the Job Execution ID is correct: ${jobExecutionId}
+• Check your webhook key permissions
+• Use "check status of job ${jobExecutionId}" for a single snapshot`
+        }],
+        isError: true
+      };
+    }
+  }
+};
+
+// Schema definition for the tool
+export const waitForJobSchema = {
+  jobExecutionId: z.string().describe("The Job Execution ID to wait for"),
+  pollIntervalSeconds: z.number().int().min(5).max(300).optional().default(15).describe("Seconds between status checks (default: 15)"),
+  maxWaitSeconds: z.number().int().min(10).max(3600).optional().default(600).describe("Maximum seconds to wait before returning the latest status (default: 600)"),
+  apiKey: z.string().optional().describe("Copado webhook key (optional). Must match the key the session was opened with or COPADO_API_KEY; other orgs need their own session")
+};
+
+// Structured result with the final status and every status transition observed
+export const waitForJobOutputSchema = {
+  success: z.boolean(),
+  jobExecutionId: z.string(),
+  status: z.string().optional().describe("Last status reported by Copado"),
+  state: z.enum(JOB_STATES).optional(),
+  finished: z.boolean(),
+  timedOut: z.boolean().describe("True when maxWaitSeconds elapsed before the job finished"),
+  errorMessage: z.string().optional(),
+  endedUnattendedAt: z.string().optional().describe("When the watch ended while no wait_for_job call was connected, e.g. after the session was evicted; no notification was sent for it"),
+  statusChanges: z.array(z.object({
+    status: z.string(),
+    state: z.string(),
+    at: z.string()
+  })),
+  error: toolErrorSchema.optional()
+};
+
+export type WaitForJobOutput = z.infer<z.ZodObject<typeof waitForJobOutputSchema>>;
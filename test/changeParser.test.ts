@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isGuessed, parseChangeDescription } from "../src/copado/changeParser.js";
+import { parseEndpointProfiles } from "../src/copado/endpoints.js";
+import { Logger } from "../src/logging/Logger.js";
+import { commitTool } from "../src/tools/CommitTool.js";
+import type { ToolContext } from "../src/tools/ToolContext.js";
+
+// Action, name and type of each parsed change, in the order they were found
+function parsed(description: string) {
+  return parseChangeDescription(description).changes.map(({ change }) => [change.a, change.n, change.t]);
+}
+
+describe("parseChangeDescription", () => {
+  it("binds each action to the components in its own clause", () => {
+    assert.deepEqual(parsed('Added AccountService class and deleted LegacyHelper class'), [
+      ['Add', 'AccountService', 'ApexClass'],
+      ['Delete', 'LegacyHelper', 'ApexClass']
+    ]);
+  });
+
+  it("carries a verb over to following clauses that have none", () => {
+    assert.deepEqual(parsed('deleted OldA class, OldB class; created NewC class'), [
+      ['Delete', 'OldA', 'ApexClass'],
+      ['Delete', 'OldB', 'ApexClass'],
+      ['Add', 'NewC', 'ApexClass']
+    ]);
+  });
+
+  it("gives a leading clause the first verb that follows it", () => {
+    assert.deepEqual(parsed('AccountTrigger trigger was deleted, updated Invoice flow'), [
+      ['Delete', 'AccountTrigger', 'ApexTrigger'],
+      ['Add', 'Invoice', 'Flow']
+    ]);
+  });
+
+  it("prefers the longest action phrase", () => {
+    assert.deepEqual(parsed('Retrieve only Account object'), [['RetrieveOnly', 'Account', 'CustomObject']]);
+  });
+
+  it("warns about keywords that commonly mean another type", () => {
+    const { changes, warnings } = parseChangeDescription('Updated Region field on Account');
+
+    assert.deepEqual(changes.map(({ change, confidence }) => [change.n, change.t, confidence]), [['Region', 'CustomField', 'pattern']]);
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /could also be a standard field/);
+  });
+
+  it("does not treat Object.prototype names as type keywords", () => {
+    const { changes } = parseChangeDescription('Added Account constructor and Invoice toString');
+
+    assert.deepEqual(changes.map(({ change, confidence }) => [change.n, change.t, confidence]), [
+      ['Account', 'ApexClass', 'fallback'],
+      ['Invoice', 'ApexClass', 'fallback']
+    ]);
+  });
+});
+
+describe("isGuessed", () => {
+  it("accepts only names found next to a type keyword", () => {
+    const [pattern] = parseChangeDescription('Added AccountService class').changes;
+    const [quoted] = parseChangeDescription("Fixed 'QuoteHelper'").changes;
+    const [fallback] = parseChangeDescription('Refactored the BillingEngine').changes;
+
+    assert.equal(pattern.confidence, 'pattern');
+    assert.equal(isGuessed(pattern), false);
+    assert.equal(quoted.confidence, 'quoted-default');
+    assert.equal(isGuessed(quoted), true);
+    assert.equal(fallback.confidence, 'fallback');
+    assert.equal(isGuessed(fallback), true);
+  });
+});
+
+describe("commit_changes with a description", () => {
+  // Just enough context to build a client; any Copado call is recorded
+  function context(calls: string[]): ToolContext {
+    return {
+      credentials: { sessionApiKey: 'test-webhook-key' },
+      endpoints: parseEndpointProfiles(undefined),
+      role: 'developer',
+      logger: new Logger({ write: () => {} }),
+      fetch: async (input: Request | string | URL) => {
+        calls.push(String(input));
+        return new Response('{}', { status: 500 });
+      }
+    } as unknown as ToolContext;
+  }
+
+  it("refuses the whole commit when any component's type was guessed", async () => {
+    const calls: string[] = [];
+    const result = await commitTool.execute({
+      userStoryId: 'a1u7Q000000LkSVQA0',
+      changesDescription: "Added AccountService class and fixed 'QuoteHelper'"
+    }, context(calls));
+
+    assert.equal('isError' in result && result.isError, true);
+    assert.equal(result.structuredContent.success, false);
+    assert.equal(result.structuredContent.error?.kind, 'validation');
+    assert.match(result.structuredContent.error?.message ?? '', /^The type of "QuoteHelper" was guessed/);
+    assert.deepEqual(calls, []);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { analyzeDeploymentFailure } from "../src/copado/deploymentErrors.js";
+import { describeJob } from "../src/copado/jobDetails.js";
+import type { JobExecution } from "../src/copado/models.js";
+
+// Captured failure payloads. Compiled to dist/test/test/, three levels below the repo.
+const FIXTURES = new URL("../../../test/fixtures/deployment-failures/", import.meta.url);
+
+function fixture(name: string): string {
+  return readFileSync(new URL(name, FIXTURES), 'utf8');
+}
+
+// Analyze a job execution the way check_job_status does
+function analyzeJob(name: string) {
+  const job = describeJob(JSON.parse(fixture(name)) as JobExecution);
+  return { job, analysis: analyzeDeploymentFailure(job.errorMessage, ...job.steps.map(step => step.errorMessage)) };
+}
+
+describe("analyzeDeploymentFailure", () => {
+  it("extracts component failures from Copado's numbered error list", () => {
+    const { job, analysis } = analyzeJob('component-failures.json');
+
+    assert.equal(job.state, 'failed');
+    // The Deploy step repeats the execution's message; it is analyzed once
+    assert.deepEqual(analysis.componentFailures.map(({ type, name, category }) => ({ type, name, category })), [
+      { type: 'ApexClass', name: 'AccountService', category: 'missing-dependency' },
+      { type: 'CustomField', name: 'Account.Region__c', category: 'missing-dependency' },
+      { type: 'Flow', name: 'Account_Onboarding', category: 'duplicate' },
+      { type: 'ApexTrigger', name: 'AccountTrigger', category: 'missing-dependency' }
+    ]);
+    assert.equal(analysis.componentFailures[0].fileName, 'force-app/main/default/classes/AccountService.cls');
+    assert.deepEqual([analysis.componentFailures[0].line, analysis.componentFailures[0].column], [12, 24]);
+    assert.deepEqual([analysis.componentFailures[3].line, analysis.componentFailures[3].column], [12, 24]);
+    assert.deepEqual(analysis.testFailures, []);
+    assert.deepEqual(analysis.unparsed, []);
+
+    assert.deepEqual(analysis.categories.map(({ category, items }) => ({ category, items })), [
+      { category: 'missing-dependency', items: ['ApexClass AccountService', 'CustomField Account.Region__c', 'ApexTrigger AccountTrigger'] },
+      { category: 'duplicate', items: ['Flow Account_Onboarding'] }
+    ]);
+  });
+
+  it("extracts test failures and coverage shortfalls from a deploy result stored as JSON", () => {
+    const { analysis } = analyzeJob('test-failures-with-coverage.json');
+
+    assert.deepEqual(analysis.componentFailures, []);
+    assert.deepEqual(analysis.testFailures.map(({ className, methodName, category }) => ({ className, methodName, category })), [
+      { className: 'AccountServiceTest', methodName: 'testTierUpgrade', category: 'test-failure' },
+      { className: 'OpportunityTriggerTest', methodName: 'testCloseWon', category: 'validation-rule' }
+    ]);
+    assert.equal(analysis.testFailures[0].stackTrace, 'Class.AccountServiceTest.testTierUpgrade: line 42, column 1');
+    assert.deepEqual(analysis.coverage.map(({ name, percent }) => ({ name, percent })), [
+      { name: 'AccountService', percent: 61 },
+      { name: undefined, percent: 72 }
+    ]);
+
+    assert.deepEqual(analysis.categories.map(({ category, items }) => ({ category, items })), [
+      { category: 'test-coverage', items: ['AccountService', 'org-wide average (72%)'] },
+      { category: 'test-failure', items: ['AccountServiceTest.testTierUpgrade'] },
+      { category: 'validation-rule', items: ['OpportunityTriggerTest.testCloseWon'] }
+    ]);
+  });
+
+  it("extracts component and test failures from a validation-only run", () => {
+    const { job, analysis } = analyzeJob('validation-only.json');
+
+    assert.equal(job.type, 'validation');
+    assert.deepEqual(analysis.componentFailures.map(({ name, line, column, category }) => ({ name, line, column, category })), [
+      { name: 'LeadRouting', line: 31, column: 9, category: 'missing-dependency' },
+      { name: 'Lead.Score__c', line: undefined, column: undefined, category: 'permission' }
+    ]);
+    assert.equal(analysis.testFailures.length, 1);
+    assert.equal(analysis.testFailures[0].className, 'LeadRoutingTest');
+    assert.equal(analysis.testFailures[0].methodName, 'testBulkAssignment');
+    assert.equal(analysis.testFailures[0].category, 'test-failure');
+    // Continuation lines of the stack trace stay with their test
+    assert.equal(
+      analysis.testFailures[0].stackTrace,
+      'Class.LeadRouting.assignAll: line 55, column 1\nClass.LeadRoutingTest.testBulkAssignment: line 23, column 1'
+    );
+    assert.deepEqual(analysis.unparsed, []);
+
+    assert.deepEqual(analysis.categories.map(({ category }) => category), ['missing-dependency', 'test-failure', 'permission']);
+  });
+
+  it("keeps a truncated deploy result as unparsed text and still categorizes it", () => {
+    const { analysis } = analyzeJob('truncated-deploy-result.json');
+
+    assert.deepEqual(analysis.componentFailures, []);
+    assert.deepEqual(analysis.testFailures, []);
+    assert.equal(analysis.unparsed.length, 1);
+    assert.match(analysis.unparsed[0], /"fullName": "Invoice_L$/);
+
+    assert.equal(analysis.categories.length, 1);
+    assert.equal(analysis.categories[0].category, 'missing-dependency');
+    assert.equal(analysis.categories[0].count, 1);
+    assert.ok(analysis.categories[0].items[0].endsWith('…'));
+  });
+
+  it("reports a body that is not a Salesforce error as other, line by line", () => {
+    const analysis = analyzeDeploymentFailure(fixture('gateway-error.html'));
+
+    assert.deepEqual(analysis.componentFailures, []);
+    assert.deepEqual(analysis.testFailures, []);
+    assert.deepEqual(analysis.coverage, []);
+    assert.equal(analysis.unparsed.length, 7);
+    assert.deepEqual(analysis.categories.map(({ category, count }) => ({ category, count })), [{ category: 'other', count: 7 }]);
+  });
+
+  it("returns an empty analysis when there is no error text", () => {
+    const analysis = analyzeDeploymentFailure(undefined, '', '   ');
+
+    assert.deepEqual(analysis, { componentFailures: [], testFailures: [], coverage: [], categories: [], unparsed: [] });
+  });
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { changesFromGitDiff, parseGitDiff } from "../src/copado/gitDiff.js";
+
+const MODULE = 'force-app/main/default';
+
+// Action, type and name of each mapped change
+function mapped(diff: string) {
+  const { changes, problems, skipped } = changesFromGitDiff(diff);
+  return { changes: changes.map(({ a, t, n }) => [a, t, n]), problems, skipped };
+}
+
+describe("parseGitDiff", () => {
+  it("reads added, modified, deleted and renamed files from a unified diff", () => {
+    const diff = `diff --git a/${MODULE}/classes/New.cls b/${MODULE}/classes/New.cls
+new file mode 100644
+index 0000000..e69de29
+--- /dev/null
++++ b/${MODULE}/classes/New.cls
+@@ -0,0 +1 @@
++public class New {}
+diff --git a/${MODULE}/classes/Changed.cls b/${MODULE}/classes/Changed.cls
+index e69de29..d95f3ad 100644
+--- a/${MODULE}/classes/Changed.cls
++++ b/${MODULE}/classes/Changed.cls
+@@ -1 +1 @@
+--- a line that looks like a header
++++ another one
+diff --git a/${MODULE}/classes/Gone.cls b/${MODULE}/classes/Gone.cls
+deleted file mode 100644
+index d95f3ad..0000000
+--- a/${MODULE}/classes/Gone.cls
++++ /dev/null
+diff --git a/${MODULE}/classes/Old.cls b/${MODULE}/classes/Renamed.cls
+similarity index 100%
+rename from ${MODULE}/classes/Old.cls
+rename to ${MODULE}/classes/Renamed.cls
+`;
+
+    assert.deepEqual(parseGitDiff(diff), {
+      files: [
+        { status: 'added', path: `${MODULE}/classes/New.cls` },
+        { status: 'modified', path: `${MODULE}/classes/Changed.cls` },
+        { status: 'deleted', path: `${MODULE}/classes/Gone.cls` },
+        { status: 'deleted', path: `${MODULE}/classes/Old.cls` },
+        { status: 'added', path: `${MODULE}/classes/Renamed.cls` }
+      ],
+      problems: []
+    });
+  });
+
+  it("reads --name-status output, with tabs or pasted spaces", () => {
+    assert.deepEqual(parseGitDiff(`M\t${MODULE}/flows/Onboarding.flow-meta.xml
+R087  ${MODULE}/classes/Old.cls  ${MODULE}/classes/Renamed.cls
+X\tnot-a-status
+`), {
+      files: [
+        { status: 'modified', path: `${MODULE}/flows/Onboarding.flow-meta.xml` },
+        { status: 'deleted', path: `${MODULE}/classes/Old.cls` },
+        { status: 'added', path: `${MODULE}/classes/Renamed.cls` }
+      ],
+      problems: ['Could not read diff line "X\tnot-a-status"']
+    });
+  });
+});
+
+describe("changesFromGitDiff", () => {
+  it("deletes the old component and adds the new one for a rename", () => {
+    assert.deepEqual(mapped(`R100\t${MODULE}/classes/Old.cls\t${MODULE}/classes/Renamed.cls
+R100\t${MODULE}/classes/Old.cls-meta.xml\t${MODULE}/classes/Renamed.cls-meta.xml`), {
+      changes: [['Delete', 'ApexClass', 'Old'], ['Add', 'ApexClass', 'Renamed']],
+      problems: [],
+      skipped: []
+    });
+  });
+
+  it("deletes a bundle only when its -meta.xml file is deleted too", () => {
+    assert.deepEqual(mapped(`D\t${MODULE}/lwc/accountCard/accountCard.css
+D\t${MODULE}/lwc/oldCard/oldCard.js
+D\t${MODULE}/lwc/oldCard/oldCard.js-meta.xml
+D\t${MODULE}/classes/Gone.cls`).changes, [
+      ['Add', 'LightningComponentBundle', 'accountCard'],
+      ['Delete', 'LightningComponentBundle', 'oldCard'],
+      ['Delete', 'ApexClass', 'Gone']
+    ]);
+  });
+
+  it("keeps a component that is deleted in one file and modified in another", () => {
+    assert.deepEqual(mapped(`D\t${MODULE}/classes/Kept.cls-meta.xml
+M\t${MODULE}/classes/Kept.cls`).changes, [['Add', 'ApexClass', 'Kept']]);
+  });
+
+  it("skips tooling and files outside the metadata directories", () => {
+    assert.deepEqual(mapped(`M\t${MODULE}/lwc/accountCard/__tests__/accountCard.test.js
+M\t${MODULE}/lwc/jsconfig.json
+M\tREADME.md
+M\t${MODULE}/constructor/Foo.cls
+A\t${MODULE}/triggers/AccountTrigger.trigger`), {
+      changes: [['Add', 'ApexTrigger', 'AccountTrigger']],
+      problems: [],
+      skipped: [
+        `${MODULE}/lwc/accountCard/__tests__/accountCard.test.js`,
+        `${MODULE}/lwc/jsconfig.json`,
+        'README.md',
+        `${MODULE}/constructor/Foo.cls`
+      ]
+    });
+  });
+
+  it("reports an empty diff", () => {
+    assert.deepEqual(mapped(''), { changes: [], problems: ['The diff does not list any files'], skipped: [] });
+    assert.deepEqual(mapped('\n  \n').problems, ['The diff does not list any files']);
+  });
+
+  it("reports a diff without any metadata", () => {
+    assert.deepEqual(mapped('M\tREADME.md\nA\tpackage.json'), {
+      changes: [],
+      problems: ['None of the 2 changed files are Salesforce metadata in an SFDX package directory'],
+      skipped: ['README.md', 'package.json']
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CopadoClient } from "../src/copado/CopadoClient.js";
+import { parseEndpointProfiles } from "../src/copado/endpoints.js";
+import { JobWatcher } from "../src/jobs/JobWatcher.js";
+import { Logger } from "../src/logging/Logger.js";
+import type { ToolContext } from "../src/tools/ToolContext.js";
+import { waitForJobTool } from "../src/tools/WaitForJobTool.js";
+
+// node:sqlite ships with Node.js 22.13 and later
+const sqlite = await import("../src/storage/nodeSqlite.js").catch(() => undefined);
+
+const JOB = 'a0sKa00000WBZN9IAP';
+const logger = new Logger({ write: () => {} });
+
+// Reports the given statuses in turn, then keeps reporting the last one
+function client(...statuses: string[]): CopadoClient {
+  return {
+    checkStatus: async () => ({ jobExecution: { Id: JOB, copado__Status__c: statuses.length > 1 ? statuses.shift() : statuses[0] } })
+  } as unknown as CopadoClient;
+}
+
+describe("JobWatcher", { skip: !sqlite && "needs node:sqlite (Node.js 22.13 or later)" }, () => {
+  it("tells the waiter when the job finishes", async () => {
+    const watcher = new JobWatcher(sqlite!.openSqlite(':memory:').sql, async () => {}, logger);
+    const jobClient = client('Completed');
+
+    const waiting = watcher.wait(JOB, { client: jobClient, pollIntervalMs: 0, maxWaitMs: 60_000 });
+    assert.deepEqual(await watcher.pollDue(() => jobClient), []);
+
+    const result = await waiting;
+    assert.equal(result.state, 'completed');
+    assert.equal(result.endedUnattendedAt, undefined);
+  });
+
+  it("marks a watch that ends after the waiter's session was evicted", async () => {
+    const { sql } = sqlite!.openSqlite(':memory:');
+    const jobClient = client('In Progress', 'Completed');
+
+    const before = new JobWatcher(sql, async () => {}, logger);
+    void before.wait(JOB, { client: jobClient, pollIntervalMs: 0, maxWaitMs: 60_000 });
+    assert.deepEqual(await before.pollDue(() => jobClient), []);
+
+    // A new isolate wakes for the alarm: same storage, no waiters or clients in memory
+    const after = new JobWatcher(sql, async () => {}, logger);
+    const unattended = await after.pollDue(() => jobClient);
+
+    assert.equal(unattended.length, 1);
+    assert.equal(unattended[0].state, 'completed');
+    assert.deepEqual(unattended[0].statusChanges.map(change => change.status), ['In Progress', 'Completed']);
+    assert.ok(unattended[0].endedUnattendedAt);
+
+    // Waiting again returns the stored result and says no notification was sent
+    const result = await waitForJobTool.execute({ jobExecutionId: JOB }, {
+      credentials: { sessionApiKey: 'test-webhook-key' },
+      endpoints: parseEndpointProfiles(undefined),
+      role: 'developer',
+      logger,
+      jobs: after
+    } as unknown as ToolContext);
+
+    assert.equal(result.structuredContent.endedUnattendedAt, unattended[0].endedUnattendedAt);
+    assert.match(result.content[0].text, /while no wait_for_job call was connected, so no notification was sent/);
+  });
+});
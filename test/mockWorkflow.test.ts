@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CopadoSession, type SessionSettings } from "../src/session/CopadoSession.js";
+import { sharedSql } from "../src/storage/sql.js";
+import { checkJobStatusTool } from "../src/tools/CheckJobStatusTool.js";
+import { commitTool } from "../src/tools/CommitTool.js";
+import { deployPromotionTool } from "../src/tools/DeployPromotionTool.js";
+import { promoteTool } from "../src/tools/PromoteTool.js";
+
+// node:sqlite ships with Node.js 22.13 and later
+const sqlite = await import("../src/storage/nodeSqlite.js").catch(() => undefined);
+
+const USER_STORY = 'a1u7Q000000LkSVQA0';
+
+const settings: SessionSettings = {
+  // Jobs finish as soon as they are created
+  mock: '{"queuedMs": 0, "runningMs": 0}',
+  environments: '{"dev1": {"id": "a0c8c00000LpAxDAAV", "promotesTo": "qa"}, "qa": "a0c8c00000LpAxEAAV"}',
+  identity: { subject: 'alice@example.com', role: 'release-manager' },
+  writeLog: () => {},
+};
+
+describe("mock backend workflow", { skip: !sqlite && "needs node:sqlite (Node.js 22.13 or later)" }, () => {
+  it("commits, promotes and deploys a user story across two sessions of one tenant", async () => {
+    // Each session has its own database; the tenant's storage is shared
+    const shared = sharedSql(sqlite!.openSqlite(':memory:').sql);
+    const open = async () => {
+      const session = new CopadoSession(sqlite!.openSqlite(':memory:').sql, shared, settings, async () => {});
+      await session.initialize();
+      return session;
+    };
+    const first = await open();
+
+    const commit = await first.recorded(commitTool.name, commitTool.execute({
+      userStoryId: USER_STORY,
+      changes: [{ name: 'AccountService', type: 'ApexClass' }]
+    }, first.toolContext(commitTool.name)));
+    assert.equal(commit.structuredContent.success, true);
+
+    const promotion = await first.recorded(promoteTool.name, promoteTool.execute({
+      userStoryIds: USER_STORY,
+      sourceEnvironment: 'dev1'
+    }, first.toolContext(promoteTool.name)));
+    assert.equal(promotion.structuredContent.success, true);
+    const { promotionId } = promotion.structuredContent;
+    assert.ok(promotionId);
+
+    // The promotion is deployed from a session that did not create it
+    const second = await open();
+    const deployment = await second.recorded(deployPromotionTool.name, deployPromotionTool.execute({
+      promotionId
+    }, second.toolContext(deployPromotionTool.name)));
+    assert.equal(deployment.structuredContent.success, true);
+    assert.deepEqual(deployment.structuredContent.userStoryIds, [USER_STORY]);
+    const { jobExecutionId } = deployment.structuredContent;
+    assert.ok(jobExecutionId);
+
+    const status = await second.recorded(checkJobStatusTool.name, checkJobStatusTool.execute({
+      jobExecutionId
+    }, second.toolContext(checkJobStatusTool.name)));
+    assert.equal(status.structuredContent.jobType, 'deployment');
+    assert.equal(status.structuredContent.state, 'completed');
+
+    // Both sessions write to the tenant's history
+    const operations = await first.history.list({ userStoryId: USER_STORY });
+    assert.deepEqual(operations.map(({ tool, status }) => [tool, status]), [
+      [deployPromotionTool.name, 'Successful'],
+      [promoteTool.name, 'Successful'],
+      [commitTool.name, 'Successful']
+    ]);
+    assert.ok(operations.every(operation => operation.actor === 'alice@example.com'));
+  });
+});
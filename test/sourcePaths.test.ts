@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { changeFromSourcePath, changesFromPackageXml, changesFromSourcePaths } from "../src/copado/sourcePaths.js";
+
+const MODULE = 'force-app/main/default';
+
+describe("changeFromSourcePath", () => {
+  it("maps source files to their component", () => {
+    const cases: Array<[string, string, string]> = [
+      ['classes/AccountService.cls', 'ApexClass', 'AccountService'],
+      ['classes/AccountService.cls-meta.xml', 'ApexClass', 'AccountService'],
+      ['objects/Account/Account.object-meta.xml', 'CustomObject', 'Account'],
+      ['objects/Account/fields/Tier__c.field-meta.xml', 'CustomField', 'Account.Tier__c'],
+      ['lwc/accountCard/accountCard.js', 'LightningComponentBundle', 'accountCard'],
+      ['reports/Sales/Pipeline.report-meta.xml', 'Report', 'Sales/Pipeline'],
+      ['reports/Sales.reportFolder-meta.xml', 'ReportFolder', 'Sales']
+    ];
+    for (const [path, type, name] of cases) {
+      assert.deepEqual(changeFromSourcePath(`${MODULE}/${path}`), { a: 'Add', n: name, t: type, m: MODULE }, path);
+    }
+  });
+
+  it("takes the module from a flat package directory", () => {
+    assert.deepEqual(changeFromSourcePath('src/classes/Foo.cls', 'Delete'), { a: 'Delete', n: 'Foo', t: 'ApexClass', m: 'src' });
+  });
+
+  it("does not map directories named after Object.prototype members", () => {
+    for (const path of [
+      `${MODULE}/constructor/Foo.cls`,
+      `${MODULE}/objects/Account/__proto__/Foo.xml`,
+      `${MODULE}/objects/Account/hasOwnProperty/Foo.xml`,
+      'force-app/toString/Foo.cls',
+      '__proto__/valueOf/Foo.cls'
+    ]) {
+      assert.equal(changeFromSourcePath(path), undefined, path);
+    }
+  });
+});
+
+describe("changesFromSourcePaths", () => {
+  it("merges companion files and reports paths it cannot map", () => {
+    const { changes, problems } = changesFromSourcePaths([
+      `${MODULE}/classes/A.cls`,
+      `${MODULE}/classes/A.cls-meta.xml`,
+      'docs/README.md'
+    ], 'Delete');
+
+    assert.deepEqual(changes, [{ a: 'Delete', n: 'A', t: 'ApexClass', m: MODULE }]);
+    assert.deepEqual(problems, ['Could not map source path "docs/README.md" to a metadata type']);
+  });
+});
+
+describe("changesFromPackageXml", () => {
+  it("lists every member under its canonical type name", () => {
+    const { changes, problems } = changesFromPackageXml(`<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">
+  <types>
+    <members>AccountService</members>
+    <members>AccountServiceTest</members>
+    <name>ApexClass</name>
+  </types>
+  <types>
+    <members>Account.Tier__c</members>
+    <name>customfield</name>
+  </types>
+  <version>60.0</version>
+</Package>`);
+
+    assert.deepEqual(changes.map(({ t, n }) => [t, n]), [
+      ['ApexClass', 'AccountService'],
+      ['ApexClass', 'AccountServiceTest'],
+      ['CustomField', 'Account.Tier__c']
+    ]);
+    assert.deepEqual(problems, []);
+  });
+
+  it("reports unknown types, empty entries and wildcards instead of committing them", () => {
+    const { changes, problems } = changesFromPackageXml(`<Package>
+  <types><members>X</members><name>constructor</name></types>
+  <types><members>Y</members><name>ApexKlass</name></types>
+  <types><name>CustomObject</name></types>
+  <types><members>*</members><name>Flow</name></types>
+  <types><members>Z</members></types>
+</Package>`);
+
+    assert.deepEqual(changes, []);
+    assert.deepEqual(problems, [
+      'Unknown metadata type "constructor" in package.xml',
+      'Unknown metadata type "ApexKlass" in package.xml',
+      'The <types> entry for CustomObject has no <members>',
+      'Wildcard member "*" for Flow cannot be committed; list the components explicitly',
+      'A <types> entry has no <name>'
+    ]);
+  });
+
+  it("reports a manifest without types", () => {
+    assert.deepEqual(changesFromPackageXml('<Package></Package>'), {
+      changes: [],
+      problems: ['No <types> entries found in package.xml']
+    });
+  });
+});
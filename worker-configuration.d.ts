@@ -4,6 +4,7 @@ declare namespace Cloudflare {
 	interface Env {
 		OAUTH_KV: KVNamespace;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
+		COPADO_SHARED_STORAGE: DurableObjectNamespace<import("./src/index").CopadoSharedStorage>;
 		ASSETS: Fetcher;
 	}
 }